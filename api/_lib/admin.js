@@ -0,0 +1,72 @@
+import { assertGsAction } from "./gs.js";
+import { HttpError } from "./http.js";
+import { safeEqual } from "./session.js";
+import { verifyInitData } from "./telegram.js";
+
+// Переходы, которые оператор делает в одно касание. Отмена возможна
+// из любого незавершённого статуса и только с причиной.
+const STATUS_FLOW = {
+  new: "accepted",
+  accepted: "cooking",
+  cooking: "delivering",
+  in_work: "delivering",
+  delivering: "done",
+};
+
+const FINAL_STATUSES = new Set(["done", "completed", "canceled", "cancelled"]);
+
+export function canSetStatus(current, next) {
+  const from = String(current || "").toLowerCase();
+  if (FINAL_STATUSES.has(from)) return false;
+  if (next === "canceled") return true;
+  return STATUS_FLOW[from] === next;
+}
+
+function adminTgIds() {
+  return String(process.env.ADMIN_TG_IDS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Доступ к админке: общий токен ADMIN_TOKEN (Authorization: Bearer) для
+ * браузера или подписанный initData пользователя из ADMIN_TG_IDS
+ * (X-Telegram-Init-Data) внутри Telegram. Возвращает, кто вошёл, —
+ * это пишется в заказ вместе со сменой статуса.
+ */
+export function requireAdmin(req) {
+  const bearer = String(req.headers?.authorization || "").replace(/^Bearer\s+/i, "");
+  const initData = String(req.headers?.["x-telegram-init-data"] || "");
+
+  if (bearer) {
+    if (process.env.ADMIN_TOKEN && safeEqual(bearer, process.env.ADMIN_TOKEN)) {
+      return "token";
+    }
+    throw new HttpError(403, "Forbidden", "admin_forbidden");
+  }
+
+  if (initData) {
+    const { user } = verifyInitData(initData, process.env.TG_BOT_TOKEN);
+    if (adminTgIds().includes(String(user.id))) return `tg:${user.id}`;
+    throw new HttpError(403, "Forbidden", "admin_forbidden");
+  }
+
+  throw new HttpError(401, "Admin authorization required", "admin_auth_required");
+}
+
+export async function callAdminGs(GS_API_URL, payload) {
+  const r = await fetch(GS_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain;charset=UTF-8",
+      Accept: "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await r.json().catch(() => ({}));
+  assertGsAction(payload.action, data);
+  if (!r.ok) throw new Error(data?.error || `GS HTTP ${r.status}`);
+  return data;
+}
@@ -0,0 +1,90 @@
+const OUT_OF_STOCK_VALUES = new Set(["false", "0", "нет", "no"]);
+
+function parseInStock(value) {
+  if (value === false || value === 0) return false;
+  return !OUT_OF_STOCK_VALUES.has(String(value ?? "").trim().toLowerCase());
+}
+
+// Пустая ячейка — остаток не ведётся, товар доступен без ограничений.
+function parseStockQty(value) {
+  if (value === null || value === undefined || String(value).trim() === "") {
+    return undefined;
+  }
+  const n = Number(String(value).replace(",", "."));
+  return Number.isFinite(n) ? Math.max(n, 0) : undefined;
+}
+
+/**
+ * Приводит inStock/stockQty из таблицы к виду, который понимает клиент:
+ * inStock — boolean, stockQty — число в единицах заказа (шт или г) или нет поля.
+ */
+export function normalizeStock(product) {
+  const stockQty = parseStockQty(product.stockQty);
+  const out = { ...product, inStock: parseInStock(product.inStock) && stockQty !== 0 };
+
+  if (stockQty === undefined) delete out.stockQty;
+  else out.stockQty = stockQty;
+
+  return out;
+}
+
+export async function loadCatalog(GS_API_URL) {
+  const r = await fetch(`${GS_API_URL}?action=products`, {
+    method: "GET",
+    headers: { Accept: "application/json" },
+  });
+
+  const data = await r.json().catch(() => ({}));
+
+  if (!r.ok) throw new Error(data?.error || `Catalog HTTP ${r.status}`);
+  if (data?.error) throw new Error(data.error);
+
+  return Array.isArray(data.products) ? data.products.map(normalizeStock) : [];
+}
+
+const PRODUCT_TEXT_FIELDS = [
+  "id",
+  "category",
+  "name",
+  "unit",
+  "description",
+  "image",
+  "sellMode",
+  "groupId",
+  "variantName",
+  "shortName",
+  "badge",
+  "storageType",
+  "storageDays",
+  "composition",
+  "subtitle",
+  "flavor",
+];
+
+function toOptionalNumber(value) {
+  if (value === null || value === undefined || String(value).trim() === "") {
+    return undefined;
+  }
+  const n = Number(String(value).replace(",", "."));
+  return Number.isFinite(n) ? n : NaN;
+}
+
+// Товар из админки: только известные колонки таблицы, строки обрезаны,
+// пустые числа — undefined (ячейка останется пустой).
+export function normalizeProductInput(raw) {
+  const src = raw && typeof raw === "object" ? raw : {};
+  const product = {};
+
+  PRODUCT_TEXT_FIELDS.forEach((field) => {
+    product[field] = String(src[field] ?? "").trim();
+  });
+  product.sellMode = product.sellMode.toLowerCase();
+  product.price = toOptionalNumber(src.price) ?? NaN;
+  product.sort = toOptionalNumber(src.sort) ?? 0;
+  product.minQty = toOptionalNumber(src.minQty);
+  product.stepQty = toOptionalNumber(src.stepQty);
+  product.stockQty = toOptionalNumber(src.stockQty);
+  product.inStock = src.inStock !== false;
+
+  return product;
+}
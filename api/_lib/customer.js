@@ -0,0 +1,36 @@
+import { HttpError } from "./http.js";
+import { normalizePhone } from "./phone.js";
+import { resolveSessionPhone } from "./session.js";
+import { resolveTgUserId } from "./telegram.js";
+
+// Покупатель определяется только по проверенным данным: подписанному
+// initData из Telegram или сессии, подтверждённой кодом по телефону.
+export function requireCustomer({ initData, session }) {
+  const tgUserId = resolveTgUserId(initData);
+  const phone = resolveSessionPhone(session);
+
+  if (!tgUserId && !phone) {
+    throw new HttpError(401, "Phone verification required", "phone_auth_required");
+  }
+
+  return { tgUserId, phone };
+}
+
+// Для GET-запросов: учётные данные идут заголовками, а не в строке
+// запроса — её пишут в логи Vercel, CDN и прокси.
+export const CUSTOMER_AUTH_HEADERS = "X-Telegram-Init-Data, X-Customer-Session";
+
+export function requireCustomerFromHeaders(req) {
+  return requireCustomer({
+    initData: String(req.headers?.["x-telegram-init-data"] || ""),
+    session: String(req.headers?.["x-customer-session"] || ""),
+  });
+}
+
+// Заказ покупателя — если совпал tgUserId, который /api/order взял из
+// проверенного initData, или телефон подтверждённой сессии.
+export function isOrderOwner(order, { tgUserId, phone }) {
+  if (tgUserId && String(order?.tgUserId || "") === tgUserId) return true;
+  const digits = normalizePhone(phone);
+  return !!digits && normalizePhone(order?.phone) === digits;
+}
@@ -0,0 +1,5 @@
+export function readPositiveEnv(name, fallback) {
+  const raw = Number(process.env[name]);
+  if (Number.isFinite(raw) && raw > 0) return raw;
+  return fallback;
+}
@@ -0,0 +1,26 @@
+import { HttpError } from "./http.js";
+
+// Кроме исходных products, order, orders и cancelOrder действия таблицы
+// появлялись постепенно, и развёрнутая версия Apps Script может какое-то
+// из них не знать. Контракт всех действий — docs/gs-api.md.
+
+export class GsActionUnsupportedError extends HttpError {
+  constructor(action) {
+    super(501, `Spreadsheet does not support action ${action}`, "gs_action_unsupported", {
+      action,
+    });
+    this.name = "GsActionUnsupportedError";
+  }
+}
+
+// На незнакомое действие таблица отвечает кодом unknown_action; скрипты,
+// написанные до контракта, — только текстом «Unknown action: …».
+export function isUnknownActionResponse(data) {
+  return (
+    data?.code === "unknown_action" || /unknown action/i.test(String(data?.error || ""))
+  );
+}
+
+export function assertGsAction(action, data) {
+  if (isUnknownActionResponse(data)) throw new GsActionUnsupportedError(action);
+}
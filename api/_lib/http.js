@@ -0,0 +1,86 @@
+import { readPositiveEnv } from "./env.js";
+
+const DEFAULT_MAX_BODY_BYTES = 32 * 1024;
+
+// extra — дополнительные поля ответа, которые клиент может показать.
+export class HttpError extends Error {
+  constructor(status, message, code, extra = {}) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+    this.extra = extra;
+  }
+}
+
+function getAllowedOrigins() {
+  return String(process.env.ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// Без ALLOWED_ORIGINS ведём себя как раньше (Access-Control-Allow-Origin: *).
+// Со списком — отвечаем только перечисленным origin, остальным 403.
+export function applyCors(req, res, { methods, headers = "Content-Type" }) {
+  const allowed = getAllowedOrigins();
+  const origin = String(req.headers?.origin || "");
+
+  res.setHeader("Access-Control-Allow-Methods", methods);
+  res.setHeader("Access-Control-Allow-Headers", headers);
+
+  if (!allowed.length) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    return;
+  }
+
+  res.setHeader("Vary", "Origin");
+
+  if (!origin) return;
+
+  if (!allowed.includes(origin)) {
+    throw new HttpError(403, "Origin not allowed", "origin_not_allowed");
+  }
+
+  res.setHeader("Access-Control-Allow-Origin", origin);
+}
+
+export function parseJsonBody(req) {
+  const maxBytes = readPositiveEnv("MAX_BODY_BYTES", DEFAULT_MAX_BODY_BYTES);
+  const declared = Number(req.headers?.["content-length"]);
+
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new HttpError(413, "Request body too large", "body_too_large");
+  }
+
+  if (typeof req.body !== "string") return req.body || {};
+
+  if (Buffer.byteLength(req.body, "utf8") > maxBytes) {
+    throw new HttpError(413, "Request body too large", "body_too_large");
+  }
+
+  try {
+    return JSON.parse(req.body || "{}");
+  } catch {
+    throw new HttpError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+export function getClientIp(req) {
+  const forwarded = String(req.headers?.["x-forwarded-for"] || "")
+    .split(",")[0]
+    .trim();
+  if (forwarded) return forwarded;
+  return String(req.headers?.["x-real-ip"] || req.socket?.remoteAddress || "");
+}
+
+export function sendHttpError(res, e) {
+  if (e.extra?.retryAfter) {
+    res.setHeader("Retry-After", String(e.extra.retryAfter));
+  }
+  return res.status(e.status).json({
+    error: e.message,
+    code: e.code,
+    ...e.extra,
+  });
+}
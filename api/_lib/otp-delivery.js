@@ -0,0 +1,102 @@
+import { assertGsAction, isUnknownActionResponse } from "./gs.js";
+import { HttpError } from "./http.js";
+import { normalizePhone } from "./phone.js";
+import { sendBotMessage } from "./telegram-bot.js";
+
+// Доставка одноразовых кодов. Провайдер выбирается через OTP_PROVIDER:
+// console (по умолчанию, для разработки), telegram, smsru.
+
+function codeText(code) {
+  return `Код для просмотра заказов «Нашенское»: ${code}. Никому его не сообщайте.`;
+}
+
+const providers = {
+  async console({ phone, code }) {
+    console.log(`[otp] code for ${phone}: ${code}`);
+  },
+
+  // Бот пишет только в чат, привязанный к номеру через linkTelegramPhone.
+  // Телефон в заказе вводит сам покупатель, поэтому по заказам чат не ищем:
+  // иначе чужой номер в заказе уводил бы коды входа в чужой чат.
+  async telegram({ phone, code }) {
+    const { GS_API_URL, GS_API_TOKEN } = process.env;
+
+    const r = await fetch(
+      `${GS_API_URL}?action=tgChatByPhone` +
+        `&token=${encodeURIComponent(GS_API_TOKEN || "")}` +
+        `&phone=${encodeURIComponent(phone)}`,
+      { method: "GET", headers: { Accept: "application/json" } }
+    );
+    const data = await r.json().catch(() => ({}));
+
+    if (isUnknownActionResponse(data)) {
+      console.error("otp: spreadsheet does not support tgChatByPhone");
+    }
+
+    if (!data?.chatId) {
+      throw new HttpError(
+        409,
+        "Telegram chat not found for this phone",
+        "otp_channel_unavailable"
+      );
+    }
+
+    await sendBotMessage(data.chatId, codeText(code));
+  },
+
+  async smsru({ phone, code }) {
+    const apiId = process.env.SMSRU_API_ID;
+    if (!apiId) throw new Error("Missing SMSRU_API_ID env var");
+
+    const url =
+      "https://sms.ru/sms/send" +
+      `?api_id=${encodeURIComponent(apiId)}` +
+      `&to=${encodeURIComponent(phone)}` +
+      `&msg=${encodeURIComponent(codeText(code))}` +
+      "&json=1";
+
+    const r = await fetch(url, { method: "GET" });
+    const data = await r.json().catch(() => ({}));
+
+    if (data?.status !== "OK") {
+      throw new Error(data?.status_text || `SMS HTTP ${r.status}`);
+    }
+  },
+};
+
+/**
+ * Привязка номера к чату: номер пришёл контактом, которым пользователь
+ * поделился с ботом (кнопка request_contact), а такой контакт Telegram
+ * подтверждает сам. Контакт другого человека не подходит.
+ */
+export async function linkTelegramPhone(tgUserId, phone) {
+  const { GS_API_URL, GS_API_TOKEN } = process.env;
+
+  const r = await fetch(GS_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain;charset=UTF-8",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({
+      action: "linkTgPhone",
+      token: GS_API_TOKEN,
+      tgUserId: String(tgUserId),
+      phone: normalizePhone(phone),
+    }),
+  });
+  const data = await r.json().catch(() => ({}));
+  assertGsAction("linkTgPhone", data);
+
+  if (!r.ok || data?.error) {
+    throw new Error(data?.error || `Link phone HTTP ${r.status}`);
+  }
+}
+
+export async function deliverCode({ phone, code }) {
+  const name = process.env.OTP_PROVIDER || "console";
+  const provider = providers[name];
+  if (!provider) throw new Error(`Unknown OTP_PROVIDER: ${name}`);
+  await provider({ phone, code });
+  return name;
+}
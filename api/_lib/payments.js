@@ -0,0 +1,117 @@
+import { assertGsAction } from "./gs.js";
+import { HttpError } from "./http.js";
+import { normalizeStatus } from "./status-messages.js";
+import { callBotApi } from "./telegram-bot.js";
+
+// Онлайн-оплата включается токеном платёжного провайдера из @BotFather.
+export function isOnlinePaymentEnabled() {
+  return Boolean(process.env.TG_PAYMENT_PROVIDER_TOKEN);
+}
+
+export function paymentCurrency() {
+  return process.env.TG_PAYMENT_CURRENCY || "RUB";
+}
+
+/**
+ * Способ оплаты из заказа: cash (наличными, changeFrom — с какой купюры
+ * сдача, 0 — без сдачи), card (картой курьеру), sbp (перевод по ссылке
+ * СБП из настроек) или online (инвойс Telegram).
+ */
+export function resolvePaymentMethod(body, { grandTotal, settings }) {
+  const method = String(body.paymentMethod || "").trim();
+  const allowed = ["cash", "card"];
+  if (settings.sbpUrl) allowed.push("sbp");
+  if (isOnlinePaymentEnabled()) allowed.push("online");
+
+  if (!allowed.includes(method)) {
+    throw new HttpError(400, "Unknown payment method", "bad_payment_method");
+  }
+
+  const changeFrom = method === "cash" ? Number(body.changeFrom) || 0 : 0;
+  if (changeFrom && changeFrom < grandTotal) {
+    throw new HttpError(422, "Change amount is less than order total", "change_too_small");
+  }
+
+  return { paymentMethod: method, changeFrom };
+}
+
+// Telegram принимает суммы в минимальных единицах валюты (копейках).
+export function toMinorUnits(amount) {
+  return Math.round((Number(amount) || 0) * 100);
+}
+
+// Статус из таблицы может быть синонимом (cancelled, completed).
+export function isOrderPayable(order) {
+  const status = normalizeStatus(order?.status);
+  return (
+    !!order &&
+    status !== "canceled" &&
+    status !== "done" &&
+    order.paymentStatus !== "paid" &&
+    toMinorUnits(order.grandTotal) > 0
+  );
+}
+
+export async function loadOrderInfo(GS_API_URL, GS_API_TOKEN, orderId) {
+  const url = new URL(GS_API_URL);
+  url.searchParams.set("action", "orderInfo");
+  url.searchParams.set("token", GS_API_TOKEN);
+  url.searchParams.set("orderId", orderId);
+
+  const r = await fetch(url.toString(), {
+    method: "GET",
+    headers: { Accept: "application/json" },
+  });
+  const data = await r.json().catch(() => ({}));
+  assertGsAction("orderInfo", data);
+
+  if (!r.ok || data?.error) {
+    throw new Error(data?.error || `Order info HTTP ${r.status}`);
+  }
+
+  return data.order || null;
+}
+
+export async function savePayment(GS_API_URL, GS_API_TOKEN, orderId, payment) {
+  const r = await fetch(GS_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain;charset=UTF-8",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({
+      action: "setPayment",
+      token: GS_API_TOKEN,
+      orderId,
+      ...payment,
+    }),
+  });
+  const data = await r.json().catch(() => ({}));
+  assertGsAction("setPayment", data);
+
+  if (!r.ok || data?.error) {
+    throw new Error(data?.error || `Set payment HTTP ${r.status}`);
+  }
+
+  return data;
+}
+
+function describeItems(order) {
+  const text = (Array.isArray(order.items) ? order.items : [])
+    .map((it) => String(it.name || "").trim())
+    .filter(Boolean)
+    .join(", ");
+  // description инвойса ограничен 255 символами.
+  return text.length > 255 ? `${text.slice(0, 252)}...` : text || "Заказ с фермы";
+}
+
+export function createOrderInvoiceLink(order) {
+  return callBotApi("createInvoiceLink", {
+    title: `Заказ #${order.orderId}`,
+    description: describeItems(order),
+    payload: String(order.orderId),
+    provider_token: process.env.TG_PAYMENT_PROVIDER_TOKEN,
+    currency: paymentCurrency(),
+    prices: [{ label: "Заказ с доставкой", amount: toMinorUnits(order.grandTotal) }],
+  });
+}
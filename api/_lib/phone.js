@@ -0,0 +1,3 @@
+export function normalizePhone(p) {
+  return String(p || "").replace(/\D+/g, "");
+}
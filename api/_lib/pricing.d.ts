@@ -0,0 +1,35 @@
+// Типы для клиента (src/catalog.ts реэкспортирует pricing.js); rebuildOrder
+// нужен только серверу и здесь не описан.
+// Товар описан по тем полям, что нужны расчёту: из таблицы числа
+// могут прийти строкой.
+
+export type PricingProduct = {
+  name?: string;
+  unit?: string;
+  price?: number | string;
+  sellMode?: string;
+  minQty?: number | string;
+  stepQty?: number | string;
+  inStock?: boolean | string;
+  stockQty?: number | string;
+  variantName?: string;
+  flavor?: string;
+  shortName?: string;
+};
+
+export type DeliveryTerms = {
+  deliveryFee: number;
+  freeDeliveryFrom: number;
+};
+
+export function getSellMode(product: PricingProduct): "weight" | "piece";
+export function getDisplayUnit(product: PricingProduct): "г" | "шт";
+export function getProductDisplayName(product: PricingProduct, withFlavor?: boolean): string;
+export function getMinQty(product: PricingProduct): number;
+export function getStepQty(product: PricingProduct): number;
+export function parseWeightPriceBase(rawUnit: string | undefined): number | null;
+export function getWeightPriceBase(product: PricingProduct): number;
+export function normalizeQtyForProduct(product: PricingProduct, rawQty: number): number;
+export function getMaxQty(product: PricingProduct): number;
+export function calcLineSum(product: PricingProduct, qty: number): number;
+export function calcDelivery(total: number, terms: DeliveryTerms): number;
@@ -0,0 +1,198 @@
+// Правила расчёта заказа, общие для сервера и клиента: src/catalog.ts
+// реэкспортирует их, типы — в pricing.d.ts. Поэтому здесь только чистые
+// функции без зависимостей от Node.
+
+const MONEY_EPS = 0.01;
+
+export function getSellMode(product) {
+  return String(product.sellMode || "").toLowerCase() === "weight"
+    ? "weight"
+    : "piece";
+}
+
+// Единица количества в строке заказа: граммы для весовых товаров.
+export function getDisplayUnit(product) {
+  return getSellMode(product) === "weight" ? "г" : "шт";
+}
+
+// Название товара в корзине и в строке заказа: «Молоко · 1 л · Топлёное».
+export function getProductDisplayName(product, withFlavor = true) {
+  const name = String(product.name || "").trim();
+  const variantName = String(product.variantName || "").trim();
+  const flavor = String(product.flavor || "").trim();
+  const shortName = String(product.shortName || "").trim();
+
+  const parts = [];
+
+  if (name) {
+    parts.push(name);
+  }
+
+  if (variantName && !name.toLowerCase().includes(variantName.toLowerCase())) {
+    parts.push(variantName);
+  }
+
+  if (withFlavor && flavor) {
+    parts.push(flavor);
+  }
+
+  if (shortName) {
+    parts.push(shortName);
+  }
+
+  return parts.join(" · ");
+}
+
+export function getMinQty(product) {
+  const raw = Number(product.minQty);
+  if (Number.isFinite(raw) && raw > 0) return raw;
+  return getSellMode(product) === "weight" ? 300 : 1;
+}
+
+export function getStepQty(product) {
+  const raw = Number(product.stepQty);
+  if (Number.isFinite(raw) && raw > 0) return raw;
+  return getSellMode(product) === "weight" ? 50 : 1;
+}
+
+// null — единица не распознана; в расчёте она считается килограммом.
+export function parseWeightPriceBase(rawUnit) {
+  const unit = String(rawUnit || "")
+    .toLowerCase()
+    .replace(",", ".")
+    .replace(/\s+/g, "");
+
+  // кг → граммы
+  const kgMatch = unit.match(/(\d+(?:\.\d+)?)кг/);
+  if (kgMatch) {
+    return Math.round(parseFloat(kgMatch[1]) * 1000);
+  }
+
+  // граммы
+  const gMatch = unit.match(/(\d+)г/);
+  if (gMatch) {
+    return parseInt(gMatch[1]);
+  }
+
+  return null;
+}
+
+export function getWeightPriceBase(product) {
+  return parseWeightPriceBase(product.unit) ?? 1000;
+}
+
+export function normalizeQtyForProduct(product, rawQty) {
+  const minQty = getMinQty(product);
+  const stepQty = getStepQty(product);
+
+  if (!Number.isFinite(rawQty)) return minQty;
+
+  const rounded = Math.round(rawQty / stepQty) * stepQty;
+  return Math.max(minQty, rounded);
+}
+
+// Сколько можно заказать с учётом остатка: Infinity, если остаток не ведётся,
+// 0 — если товара нет или остатка не хватает даже на минимальный заказ.
+export function getMaxQty(product) {
+  if (product.inStock === false) return 0;
+
+  const stock = Number(product.stockQty);
+  if (product.stockQty === undefined || !Number.isFinite(stock)) return Infinity;
+
+  const stepQty = getStepQty(product);
+  const max = Math.floor(stock / stepQty) * stepQty;
+  return max >= getMinQty(product) ? max : 0;
+}
+
+export function calcLineSum(product, qty) {
+  const price = Number(product.price) || 0;
+  if (getSellMode(product) === "weight") {
+    return (qty / getWeightPriceBase(product)) * price;
+  }
+  return qty * price;
+}
+
+// terms — условия зоны доставки (см. resolveZone в settings.js).
+export function calcDelivery(total, terms) {
+  if (total <= 0) return 0;
+  return total < terms.freeDeliveryFrom ? terms.deliveryFee : 0;
+}
+
+function round2(n) {
+  return Number((Number(n) || 0).toFixed(2));
+}
+
+function differs(a, b) {
+  return Math.abs((Number(a) || 0) - (Number(b) || 0)) >= MONEY_EPS;
+}
+
+// Пересобирает заказ по актуальному каталогу: от клиента берутся только
+// id и qty строки, название, единица, цена и сумма — из каталога.
+// Расхождения по строкам возвращаются в changes, итоговые суммы клиента
+// просто заменяются.
+export function rebuildOrder(products, payload, terms) {
+  const byId = new Map(products.map((p) => [String(p.id), p]));
+  const clientItems = Array.isArray(payload?.items) ? payload.items : [];
+
+  const items = [];
+  const changes = [];
+
+  clientItems.forEach((line) => {
+    const id = String(line?.id || "");
+    const product = byId.get(id);
+
+    // Товара в каталоге нет — назвать его можно только со слов клиента;
+    // это название уходит лишь обратно ему в changes.
+    if (!product) {
+      changes.push({ id, name: String(line?.name || id), kind: "removed" });
+      return;
+    }
+
+    const name = getProductDisplayName(product);
+    const maxQty = getMaxQty(product);
+    if (maxQty === 0) {
+      changes.push({ id, name, kind: "out_of_stock" });
+      return;
+    }
+
+    const price = Number(product.price) || 0;
+    const clientQty = Number(line?.qty);
+    const normalizedQty = normalizeQtyForProduct(product, clientQty);
+    const qty = Math.min(normalizedQty, maxQty);
+
+    if (differs(line?.price, price)) {
+      changes.push({
+        id,
+        name,
+        kind: "price",
+        oldPrice: Number(line?.price) || 0,
+        newPrice: price,
+      });
+    }
+
+    if (qty !== clientQty) {
+      changes.push({
+        id,
+        name,
+        kind: qty < normalizedQty ? "stock" : "qty",
+        oldQty: Number.isFinite(clientQty) ? clientQty : 0,
+        newQty: qty,
+      });
+    }
+
+    items.push({
+      id,
+      name,
+      unit: getDisplayUnit(product),
+      price,
+      qty,
+      sum: round2(calcLineSum(product, qty)),
+    });
+  });
+
+  const total = round2(items.reduce((s, it) => s + it.sum, 0));
+  const delivery = round2(calcDelivery(total, terms));
+  const grandTotal = round2(total + delivery);
+
+  return { items, total, delivery, grandTotal, changes };
+}
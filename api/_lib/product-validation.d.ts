@@ -0,0 +1,22 @@
+// Типы для клиента (src/catalog.ts реэкспортирует product-validation.js).
+import type { PricingProduct } from "./pricing.js";
+
+export type ValidatedProduct = PricingProduct & {
+  id?: string;
+  category?: string;
+  price?: number;
+  minQty?: number;
+  stepQty?: number;
+  stockQty?: number;
+  image?: string;
+  groupId?: string;
+};
+
+// Ключ — поле товара или group (конфликт внутри groupId).
+export type ProductValidationErrors = Record<string, string>;
+
+export function validateProduct(
+  product: ValidatedProduct,
+  catalog: ValidatedProduct[],
+  options: { isNew: boolean }
+): ProductValidationErrors;
@@ -0,0 +1,103 @@
+// Проверка товара из админки, общая для сервера (/api/admin) и клиента:
+// src/catalog.ts реэкспортирует её, типы — в product-validation.d.ts.
+// Как и pricing.js — только чистые функции без зависимостей от Node.
+import {
+  getMinQty,
+  getProductDisplayName,
+  getStepQty,
+  parseWeightPriceBase,
+} from "./pricing.js";
+
+const PRODUCT_ID_RE = /^[a-z0-9а-яё_-]+$/i;
+
+function text(value) {
+  return String(value ?? "").trim();
+}
+
+function groupKey(p) {
+  return text(p.groupId || p.id);
+}
+
+function variantKey(p) {
+  return text(p.variantName) || "__default__";
+}
+
+function flavorKey(p) {
+  return text(p.flavor);
+}
+
+function isPositiveInt(value) {
+  return Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Поля товара и конфликты внутри groupId: товары одной группы различаются
+ * вариантом и вкусом, и совпадения делают часть из них невидимой.
+ * Пустой объект — ошибок нет.
+ */
+export function validateProduct(product, catalog, { isNew }) {
+  const errors = {};
+  const id = text(product.id);
+
+  if (!PRODUCT_ID_RE.test(id)) {
+    errors.id = "Только буквы, цифры, «_» и «-».";
+  } else if (isNew && catalog.some((p) => String(p.id) === id)) {
+    errors.id = "Товар с таким id уже есть.";
+  }
+
+  if (!text(product.name)) errors.name = "Укажите название.";
+  if (!text(product.category)) errors.category = "Укажите категорию.";
+  if (!Number.isFinite(product.price) || product.price <= 0) {
+    errors.price = "Цена должна быть больше нуля.";
+  }
+
+  const mode = text(product.sellMode).toLowerCase();
+  if (mode !== "weight" && mode !== "piece") {
+    errors.sellMode = "Выберите: на вес или поштучно.";
+  }
+
+  if (mode === "weight" && !parseWeightPriceBase(product.unit)) {
+    errors.unit = "Для весового товара цена указывается за вес: «1 кг», «500 г».";
+  } else if (!text(product.unit)) {
+    errors.unit = "Укажите единицу, например «шт» или «бутылка 1 л».";
+  }
+
+  if (product.minQty !== undefined && !isPositiveInt(product.minQty)) {
+    errors.minQty = "Целое число больше нуля.";
+  }
+  if (product.stepQty !== undefined && !isPositiveInt(product.stepQty)) {
+    errors.stepQty = "Целое число больше нуля.";
+  }
+  if (!errors.minQty && !errors.stepQty && getMinQty(product) % getStepQty(product) !== 0) {
+    errors.minQty = `Минимум должен делиться на шаг (${getStepQty(product)}).`;
+  }
+
+  if (product.stockQty !== undefined && !(product.stockQty >= 0)) {
+    errors.stockQty = "Остаток не может быть отрицательным.";
+  }
+
+  if (product.image && !/^(\/images\/|https?:\/\/)/.test(product.image)) {
+    errors.image = "Картинка — файл из /images/ или ссылка.";
+  }
+
+  const sameVariant = catalog.filter(
+    (p) =>
+      String(p.id) !== id &&
+      groupKey(p) === groupKey(product) &&
+      variantKey(p) === variantKey(product)
+  );
+  const twin = sameVariant.find((p) => flavorKey(p) === flavorKey(product));
+
+  if (twin) {
+    errors.group = `В группе уже есть «${getProductDisplayName(twin)}» с тем же вариантом и вкусом.`;
+  } else if (!flavorKey(product) && sameVariant.some((p) => flavorKey(p))) {
+    errors.flavor = "У остальных товаров этого варианта указан вкус — без вкуса товар не будет виден.";
+  } else if (flavorKey(product)) {
+    const hidden = sameVariant.find((p) => !flavorKey(p));
+    if (hidden) {
+      errors.flavor = `«${getProductDisplayName(hidden)}» в этом варианте без вкуса и перестанет быть виден.`;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,18 @@
+// Типы для клиента (src/profile.ts реэкспортирует profile-normalize.js).
+export type NormalizedAddress = {
+  id: string;
+  label: string;
+  address: string;
+  zoneId: string;
+  comment: string;
+};
+
+export type NormalizedProfile = {
+  name: string;
+  phone: string;
+  addresses: NormalizedAddress[];
+  updatedAt: number;
+};
+
+export const MAX_ADDRESSES: number;
+export function normalizeProfile(raw: unknown): NormalizedProfile;
@@ -0,0 +1,33 @@
+// Нормализация профиля покупателя, общая для сервера (api/_lib/profile.js)
+// и клиента: src/profile.ts реэкспортирует её, типы — в
+// profile-normalize.d.ts. Только чистые функции без зависимостей от Node.
+export const MAX_ADDRESSES = 10;
+
+function text(value, max) {
+  return String(value ?? "").trim().slice(0, max);
+}
+
+function isObject(value) {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function normalizeProfile(raw) {
+  const source = isObject(raw) ? raw : {};
+  const addresses = Array.isArray(source.addresses) ? source.addresses.filter(isObject) : [];
+
+  return {
+    name: text(source.name, 100),
+    phone: text(source.phone, 30),
+    addresses: addresses
+      .map((a) => ({
+        id: text(a.id, 64),
+        label: text(a.label, 40),
+        address: text(a.address, 300),
+        zoneId: text(a.zoneId, 64),
+        comment: text(a.comment, 300),
+      }))
+      .filter((a) => a.id && a.address)
+      .slice(0, MAX_ADDRESSES),
+    updatedAt: Number(source.updatedAt) || 0,
+  };
+}
@@ -0,0 +1,47 @@
+import { assertGsAction, GsActionUnsupportedError } from "./gs.js";
+import { normalizeProfile } from "./profile-normalize.js";
+
+// Профиль покупателя: имя, телефон и адресная книга. На сервере хранится
+// только для входа через Telegram — ключом служит проверенный id из initData.
+
+async function callGs(GS_API_URL, payload) {
+  const r = await fetch(GS_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain;charset=UTF-8",
+      Accept: "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await r.json().catch(() => ({}));
+  assertGsAction(payload.action, data);
+  if (!r.ok || data?.error) throw new Error(data?.error || `GS HTTP ${r.status}`);
+  return data;
+}
+
+// Таблица без action=profile ведёт себя как пустая: клиент возьмёт
+// профиль из localStorage и CloudStorage.
+export async function loadProfile(GS_API_URL, GS_API_TOKEN, tgUserId) {
+  try {
+    const data = await callGs(GS_API_URL, {
+      action: "profile",
+      token: GS_API_TOKEN,
+      tgUserId,
+    });
+    return data.profile ? normalizeProfile(data.profile) : null;
+  } catch (e) {
+    if (!(e instanceof GsActionUnsupportedError)) throw e;
+    return null;
+  }
+}
+
+export async function storeProfile(GS_API_URL, GS_API_TOKEN, tgUserId, profile) {
+  await callGs(GS_API_URL, {
+    action: "saveProfile",
+    token: GS_API_TOKEN,
+    tgUserId,
+    profile,
+  });
+  return profile;
+}
@@ -0,0 +1,166 @@
+import { assertGsAction } from "./gs.js";
+import { HttpError } from "./http.js";
+
+const PROMO_TYPES = new Set(["percent", "fixed", "free_delivery"]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(n) {
+  return Number((Number(n) || 0).toFixed(2));
+}
+
+function toCount(value) {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+// Дата без времени в validTo действует до конца дня.
+function toTime(value, endOfDay = false) {
+  const str = String(value ?? "").trim();
+  const t = Date.parse(str);
+  if (!Number.isFinite(t)) return null;
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(str) ? t + DAY_MS - 1 : t;
+}
+
+export function normalizePromoCode(code) {
+  return String(code ?? "").trim().toUpperCase();
+}
+
+// 0 в лимитах означает «без ограничений».
+export function normalizePromo(raw) {
+  if (!raw || typeof raw !== "object") return null;
+
+  const code = normalizePromoCode(raw.code);
+  const type = String(raw.type ?? "").trim().toLowerCase();
+  if (!code || !PROMO_TYPES.has(type)) return null;
+
+  const value = Number(raw.value) || 0;
+  return {
+    code,
+    type,
+    value: type === "percent" ? Math.min(Math.max(value, 0), 100) : Math.max(value, 0),
+    validFrom: raw.validFrom || "",
+    validTo: raw.validTo || "",
+    minSum: Math.max(Number(raw.minSum) || 0, 0),
+    maxUses: toCount(raw.maxUses),
+    maxUsesPerCustomer: toCount(raw.maxUsesPerCustomer),
+    active: raw.active !== false && String(raw.active).toLowerCase() !== "false",
+  };
+}
+
+/**
+ * Промокод и счётчики его использования. Отменённые заказы не считаются;
+ * excludeOrderId — заказ, который сейчас правится.
+ */
+export async function loadPromo(
+  GS_API_URL,
+  GS_API_TOKEN,
+  { code, phone = "", tgUserId = "", excludeOrderId = "" }
+) {
+  const url = new URL(GS_API_URL);
+  url.searchParams.set("action", "promo");
+  url.searchParams.set("token", GS_API_TOKEN);
+  url.searchParams.set("code", code);
+  url.searchParams.set("phone", phone);
+  url.searchParams.set("tgUserId", tgUserId);
+  if (excludeOrderId) url.searchParams.set("excludeOrderId", excludeOrderId);
+
+  const r = await fetch(url.toString(), {
+    method: "GET",
+    headers: { Accept: "application/json" },
+  });
+  const data = await r.json().catch(() => ({}));
+  assertGsAction("promo", data);
+
+  if (!r.ok || data?.error) {
+    throw new Error(data?.error || `Promo HTTP ${r.status}`);
+  }
+
+  const promo = normalizePromo(data.promo);
+  if (!promo) return null;
+
+  return {
+    promo,
+    used: Number(data.used) || 0,
+    usedByCustomer: Number(data.usedByCustomer) || 0,
+  };
+}
+
+export function calcPromoDiscount(promo, { total, delivery }) {
+  if (promo.type === "percent") return round2((total * promo.value) / 100);
+  if (promo.type === "fixed") return round2(Math.min(promo.value, total));
+  return round2(delivery);
+}
+
+/**
+ * Проверяет промокод для суммы товаров total и возвращает скидку.
+ * Ошибки — 422 с кодом promo_*, чтобы клиент мог объяснить причину.
+ */
+export function applyPromo(found, { total, delivery }, now = Date.now()) {
+  if (!found || !found.promo.active) {
+    throw new HttpError(422, "Promo code not found", "promo_not_found");
+  }
+
+  const { promo, used, usedByCustomer } = found;
+  const from = toTime(promo.validFrom);
+  const to = toTime(promo.validTo, true);
+
+  if (from !== null && now < from) {
+    throw new HttpError(422, "Promo code is not active yet", "promo_not_started");
+  }
+  if (to !== null && now > to) {
+    throw new HttpError(422, "Promo code has expired", "promo_expired");
+  }
+  if (promo.maxUses && used >= promo.maxUses) {
+    throw new HttpError(422, "Promo code usage limit reached", "promo_exhausted");
+  }
+  if (promo.maxUsesPerCustomer && usedByCustomer >= promo.maxUsesPerCustomer) {
+    throw new HttpError(422, "Promo code already used", "promo_already_used");
+  }
+  if (total < promo.minSum) {
+    throw new HttpError(422, "Order total below promo minimum", "promo_min_sum", {
+      minSum: promo.minSum,
+    });
+  }
+
+  return {
+    promoCode: promo.code,
+    discount: calcPromoDiscount(promo, { total, delivery }),
+    // Лимиты повторно проверяет таблица под блокировкой при записи заказа.
+    promoLimits: {
+      maxUses: promo.maxUses,
+      maxUsesPerCustomer: promo.maxUsesPerCustomer,
+    },
+  };
+}
+
+// То, что можно показать покупателю: без лимитов и счётчиков.
+export function publicPromo(promo) {
+  return {
+    code: promo.code,
+    type: promo.type,
+    value: promo.value,
+    minSum: promo.minSum,
+  };
+}
+
+/**
+ * Промокод заказа: null, если код не указан, иначе скидка по пересобранным
+ * суммам. Для правки заказа передаётся excludeOrderId.
+ */
+export async function resolveOrderPromo(
+  GS_API_URL,
+  GS_API_TOKEN,
+  { code, phone, tgUserId, excludeOrderId = "" },
+  amounts
+) {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) return null;
+
+  const found = await loadPromo(GS_API_URL, GS_API_TOKEN, {
+    code: normalized,
+    phone,
+    tgUserId,
+    excludeOrderId,
+  });
+  return applyPromo(found, amounts);
+}
@@ -0,0 +1,51 @@
+import { HttpError } from "./http.js";
+
+// Хранилище по умолчанию — память инстанса. Для нескольких инстансов
+// подключается внешнее (Redis/KV) с тем же методом hit.
+export function createMemoryStore() {
+  const buckets = new Map();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      let bucket = buckets.get(key);
+
+      if (!bucket || bucket.resetAt <= now) {
+        bucket = { count: 0, resetAt: now + windowMs };
+        buckets.set(key, bucket);
+      }
+
+      bucket.count += 1;
+
+      if (buckets.size > 10000) {
+        for (const [k, b] of buckets) {
+          if (b.resetAt <= now) buckets.delete(k);
+        }
+      }
+
+      return { count: bucket.count, resetAt: bucket.resetAt };
+    },
+  };
+}
+
+let defaultStore = createMemoryStore();
+
+export function setRateLimitStore(store) {
+  defaultStore = store;
+}
+
+// rules: [{ key, limit, windowSec }]; пустые key пропускаются.
+export async function enforceRateLimits(rules, store = defaultStore) {
+  for (const rule of rules) {
+    if (!rule.key) continue;
+
+    const windowMs = rule.windowSec * 1000;
+    const { count, resetAt } = await store.hit(rule.key, windowMs);
+
+    if (count > rule.limit) {
+      throw new HttpError(429, "Too many requests", "rate_limited", {
+        retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+      });
+    }
+  }
+}
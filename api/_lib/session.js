@@ -0,0 +1,69 @@
+import crypto from "node:crypto";
+import { HttpError } from "./http.js";
+
+export class SessionError extends HttpError {
+  constructor(message) {
+    super(401, message, "session_invalid");
+    this.name = "SessionError";
+  }
+}
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error("Missing AUTH_SECRET env var");
+  return secret;
+}
+
+function sign(data) {
+  return crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+export function hashSecret(value) {
+  return sign(`secret:${value}`);
+}
+
+export function safeEqual(a, b) {
+  const left = Buffer.from(String(a || ""));
+  const right = Buffer.from(String(b || ""));
+  if (!left.length || left.length !== right.length) return false;
+  return crypto.timingSafeEqual(left, right);
+}
+
+// Токен вида base64url(JSON).подпись — без хранилища на сервере,
+// поэтому работает между разными функциями и инстансами.
+export function signToken(payload, ttlSec) {
+  const exp = Math.floor(Date.now() / 1000) + ttlSec;
+  const data = Buffer.from(JSON.stringify({ ...payload, exp })).toString("base64url");
+  return { token: `${data}.${sign(data)}`, expiresAt: exp * 1000 };
+}
+
+export function verifyToken(token, kind) {
+  const [data, sig] = String(token || "").split(".");
+
+  if (!data || !sig || !safeEqual(sign(data), sig)) {
+    throw new SessionError("Token signature mismatch");
+  }
+
+  let payload = null;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+  } catch {
+    throw new SessionError("Token is malformed");
+  }
+
+  if (payload?.kind !== kind) {
+    throw new SessionError("Token kind mismatch");
+  }
+
+  if (!payload.exp || payload.exp * 1000 < Date.now()) {
+    throw new SessionError("Token expired");
+  }
+
+  return payload;
+}
+
+// Телефон из подтверждённой сессии или "" — если сессии нет.
+export function resolveSessionPhone(token) {
+  if (!String(token || "").trim()) return "";
+  return String(verifyToken(token, "phone").phone || "");
+}
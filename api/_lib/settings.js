@@ -0,0 +1,125 @@
+import { HttpError } from "./http.js";
+import { DEFAULT_SLOT_SCHEDULE, normalizeSlotSchedule } from "./slots.js";
+import { createSwrCache } from "./swr-cache.js";
+
+// Значения по умолчанию, если в таблице нет вкладки с настройками
+// или в ней заполнены не все поля.
+export const DEFAULT_SETTINGS = {
+  deliveryFee: 200,
+  freeDeliveryFrom: 2000,
+  minOrderSum: 0,
+  zones: [],
+  slots: DEFAULT_SLOT_SCHEDULE,
+  sbpUrl: "",
+};
+
+function toMoney(value, fallback) {
+  const n = Number(String(value ?? "").replace(",", "."));
+  return Number.isFinite(n) && n >= 0 && String(value ?? "").trim() !== ""
+    ? n
+    : fallback;
+}
+
+// Зона может не задавать часть полей — тогда действуют общие условия.
+function normalizeZone(raw, base) {
+  if (!raw || typeof raw !== "object") return null;
+
+  const id = String(raw.id ?? "").trim();
+  const name = String(raw.name ?? "").trim();
+  if (!id || !name) return null;
+
+  return {
+    id,
+    name,
+    deliveryFee: toMoney(raw.deliveryFee, base.deliveryFee),
+    freeDeliveryFrom: toMoney(raw.freeDeliveryFrom, base.freeDeliveryFrom),
+    minOrderSum: toMoney(raw.minOrderSum, base.minOrderSum),
+  };
+}
+
+// Из таблицы зоны могут прийти JSON-строкой (одна ячейка) или массивом.
+function parseZones(raw, base) {
+  let list = raw;
+  if (typeof list === "string") {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      list = [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+
+  const seen = new Set();
+  return list
+    .map((z) => normalizeZone(z, base))
+    .filter((z) => z && !seen.has(z.id) && seen.add(z.id));
+}
+
+export function normalizeSettings(raw) {
+  const src = raw && typeof raw === "object" ? raw : {};
+  const base = {
+    deliveryFee: toMoney(src.deliveryFee, DEFAULT_SETTINGS.deliveryFee),
+    freeDeliveryFrom: toMoney(src.freeDeliveryFrom, DEFAULT_SETTINGS.freeDeliveryFrom),
+    minOrderSum: toMoney(src.minOrderSum, DEFAULT_SETTINGS.minOrderSum),
+  };
+  return {
+    ...base,
+    zones: parseZones(src.zones, base),
+    slots: normalizeSlotSchedule(src.slots),
+    sbpUrl: /^https?:\/\//i.test(String(src.sbpUrl ?? "").trim())
+      ? String(src.sbpUrl).trim()
+      : "",
+  };
+}
+
+/**
+ * Условия доставки для выбранной зоны. Если зоны не настроены, действуют
+ * общие условия и zoneId не нужен; иначе зона обязательна.
+ */
+export function resolveZone(settings, zoneId) {
+  const zones = settings.zones || [];
+  if (!zones.length) {
+    return {
+      id: "",
+      name: "",
+      deliveryFee: settings.deliveryFee,
+      freeDeliveryFrom: settings.freeDeliveryFrom,
+      minOrderSum: settings.minOrderSum,
+    };
+  }
+
+  const id = String(zoneId ?? "").trim();
+  const zone = zones.find((z) => z.id === id);
+  if (!zone) {
+    throw new HttpError(400, "Unknown delivery zone", "unknown_zone");
+  }
+  return zone;
+}
+
+const cache = createSwrCache({
+  maxAgeSec: 60,
+  swrSec: 600,
+  async load() {
+    const r = await fetch(`${process.env.GS_API_URL}?action=settings`, {
+      method: "GET",
+      headers: { Accept: "application/json" },
+    });
+    const data = await r.json().catch(() => ({}));
+
+    if (!r.ok || data?.error) {
+      throw new Error(data?.error || `Settings HTTP ${r.status}`);
+    }
+
+    return JSON.stringify(normalizeSettings(data.settings));
+  },
+});
+
+export async function loadSettings() {
+  try {
+    const entry = await cache.get();
+    return JSON.parse(entry.body);
+  } catch (e) {
+    console.error("settings: falling back to defaults:", e?.message || e);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
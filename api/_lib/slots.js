@@ -0,0 +1,251 @@
+import { isUnknownActionResponse } from "./gs.js";
+import { HttpError } from "./http.js";
+
+// Расписание по умолчанию: неделя вперёд, запись закрывается за 2 часа
+// до начала окна. Окон нет — запись на время выключена, пока в настройках
+// таблицы не заданы slots.windows, например:
+// [{ "id": "10-14", "from": "10:00", "to": "14:00", "capacity": 10 }].
+export const DEFAULT_SLOT_SCHEDULE = {
+  timeZone: "Europe/Moscow",
+  daysAhead: 7,
+  cutoffMinutes: 120,
+  closedWeekdays: [],
+  windows: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toMinutes(hhmm) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm ?? "").trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+function toCount(value, fallback) {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 0 && String(value ?? "").trim() !== ""
+    ? n
+    : fallback;
+}
+
+function isValidTimeZone(tz) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Пустая вместимость — окно без ограничения по числу заказов.
+function toCapacity(value) {
+  return String(value ?? "").trim() === "" ? null : toCount(value, null);
+}
+
+function normalizeWindow(raw) {
+  if (!raw || typeof raw !== "object") return null;
+
+  const from = toMinutes(raw.from);
+  const to = toMinutes(raw.to);
+  if (from === null || to === null || to <= from) return null;
+
+  const id = String(raw.id ?? "").trim() || `${raw.from}-${raw.to}`;
+  return {
+    id,
+    from: String(raw.from).trim(),
+    to: String(raw.to).trim(),
+    capacity: toCapacity(raw.capacity),
+  };
+}
+
+// Как и зоны, расписание может прийти из таблицы JSON-строкой.
+export function normalizeSlotSchedule(raw) {
+  let src = raw;
+  if (typeof src === "string") {
+    try {
+      src = JSON.parse(src);
+    } catch {
+      src = null;
+    }
+  }
+  if (!src || typeof src !== "object") return DEFAULT_SLOT_SCHEDULE;
+
+  const d = DEFAULT_SLOT_SCHEDULE;
+  const windows = Array.isArray(src.windows)
+    ? src.windows.map(normalizeWindow).filter(Boolean)
+    : d.windows;
+
+  return {
+    timeZone: isValidTimeZone(src.timeZone) ? src.timeZone : d.timeZone,
+    daysAhead: Math.min(toCount(src.daysAhead, d.daysAhead), 60),
+    cutoffMinutes: toCount(src.cutoffMinutes, d.cutoffMinutes),
+    closedWeekdays: Array.isArray(src.closedWeekdays)
+      ? src.closedWeekdays.map(Number).filter((n) => n >= 0 && n <= 6)
+      : d.closedWeekdays,
+    windows,
+  };
+}
+
+// Текущие дата и минуты от полуночи в часовом поясе магазина.
+function localNow(now, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function addDays(isoDate, days) {
+  const t = Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS;
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+function weekday(isoDate) {
+  return new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+}
+
+export function slotKey(date, slotId) {
+  return `${date}|${slotId}`;
+}
+
+export function slotWindowLabel(window) {
+  return `${window.from}–${window.to}`;
+}
+
+/** Диапазон дат, на которые сейчас можно записаться. */
+export function slotDateRange(schedule, now = new Date()) {
+  const today = localNow(now, schedule.timeZone).date;
+  return {
+    from: today,
+    to: addDays(today, Math.max(schedule.daysAhead - 1, 0)),
+  };
+}
+
+/**
+ * Дни и окна доставки с остатком мест. usage — сколько заказов уже
+ * записано на каждое окно: { "YYYY-MM-DD|slotId": count }. У окна без
+ * ограничения left = null.
+ */
+export function buildSlotDays(schedule, usage = {}, now = new Date()) {
+  const { date: today, minutes: nowMinutes } = localNow(now, schedule.timeZone);
+  const days = [];
+
+  for (let i = 0; i < schedule.daysAhead; i += 1) {
+    const date = addDays(today, i);
+    if (schedule.closedWeekdays.includes(weekday(date))) continue;
+
+    // Окна после отсечки не показываем; заполненные показываем с left = 0.
+    const slots = schedule.windows
+      .filter((w) => {
+        const startsIn = i * 24 * 60 + toMinutes(w.from) - nowMinutes;
+        return startsIn >= schedule.cutoffMinutes;
+      })
+      .map((w) => {
+        const booked = Number(usage[slotKey(date, w.id)]) || 0;
+        const left = w.capacity === null ? null : Math.max(w.capacity - booked, 0);
+        return { id: w.id, from: w.from, to: w.to, left, available: left !== 0 };
+      });
+
+    if (slots.length) days.push({ date, slots });
+  }
+
+  return days;
+}
+
+function hasLimitedSlots(schedule) {
+  return schedule.windows.some((w) => w.capacity !== null);
+}
+
+// Окна без ограничений занятость не интересует — таблицу не спрашиваем.
+export async function loadSlotUsage(
+  GS_API_URL,
+  schedule,
+  { from, to, excludeOrderId = "" }
+) {
+  if (!hasLimitedSlots(schedule)) return {};
+
+  const url = new URL(GS_API_URL);
+  url.searchParams.set("action", "slotUsage");
+  url.searchParams.set("from", from);
+  url.searchParams.set("to", to);
+  if (excludeOrderId) url.searchParams.set("excludeOrderId", excludeOrderId);
+
+  const r = await fetch(url.toString(), {
+    method: "GET",
+    headers: { Accept: "application/json" },
+  });
+  const data = await r.json().catch(() => ({}));
+
+  // Таблица без slotUsage не покажет остатки мест: окна выглядят
+  // свободными, а лимит держит только её action=order.
+  if (isUnknownActionResponse(data)) {
+    console.error("slots: spreadsheet does not support slotUsage");
+    return {};
+  }
+
+  if (!r.ok || data?.error) {
+    throw new Error(data?.error || `Slot usage HTTP ${r.status}`);
+  }
+
+  return data.usage && typeof data.usage === "object" ? data.usage : {};
+}
+
+/**
+ * Проверяет выбранное окно перед записью заказа. Сама проверка идёт без
+ * блокировки, и два одновременных заказа на последнее место пройдут её
+ * оба, поэтому место резервирует таблица: action=order и updateOrder
+ * под LockService считают активные заказы на deliveryDate + deliverySlot
+ * и при count >= slotCapacity отвечают кодом slot_full (пустой
+ * slotCapacity — без ограничения). Это обязательная часть контракта
+ * таблицы (docs/gs-api.md).
+ * Если окна не настроены, запись на время выключена и возвращается null.
+ */
+export async function reserveSlot(
+  GS_API_URL,
+  schedule,
+  { date, slotId, excludeOrderId = "" }
+) {
+  if (!schedule.windows.length) return null;
+
+  const d = String(date ?? "").trim();
+  const id = String(slotId ?? "").trim();
+  if (!d || !id) {
+    throw new HttpError(400, "Delivery slot is required", "slot_required");
+  }
+
+  const range = slotDateRange(schedule);
+  const usage = await loadSlotUsage(GS_API_URL, schedule, { ...range, excludeOrderId });
+  const day = buildSlotDays(schedule, usage).find((x) => x.date === d);
+  const slot = day?.slots.find((s) => s.id === id);
+
+  if (!slot) {
+    throw new HttpError(400, "Delivery slot is not available", "slot_unavailable");
+  }
+  if (!slot.available) {
+    throw new HttpError(409, "Delivery slot is full", "slot_full");
+  }
+
+  const window = schedule.windows.find((w) => w.id === id);
+  return {
+    deliveryDate: d,
+    deliverySlot: id,
+    deliveryWindow: slotWindowLabel(window),
+    slotCapacity: window.capacity,
+  };
+}
@@ -0,0 +1,28 @@
+const STATUS_TEMPLATES = {
+  accepted: (o) => `Заказ #${o.orderId} принят ✅ Скоро начнём его собирать.`,
+  in_work: (o) => `Заказ #${o.orderId} в работе — собираем ваши продукты.`,
+  delivering: (o) => `Заказ #${o.orderId} передан в доставку 🚚 Скоро будем у вас.`,
+  done: (o) => `Заказ #${o.orderId} выполнен. Спасибо, что выбираете «Нашенское»!`,
+  canceled: (o) =>
+    o.cancelReason
+      ? `Заказ #${o.orderId} отменён.\nПричина: ${o.cancelReason}`
+      : `Заказ #${o.orderId} отменён.`,
+};
+
+// Те же синонимы статусов, что понимает humanStatus в src/format.ts.
+const STATUS_ALIASES = {
+  cooking: "in_work",
+  completed: "done",
+  cancelled: "canceled",
+};
+
+export function normalizeStatus(status) {
+  const v = String(status || "").trim().toLowerCase();
+  return STATUS_ALIASES[v] || v;
+}
+
+// null — о таком статусе покупателю не пишем (например, new).
+export function renderStatusMessage(order) {
+  const template = STATUS_TEMPLATES[normalizeStatus(order.status)];
+  return template ? template(order) : null;
+}
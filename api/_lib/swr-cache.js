@@ -0,0 +1,57 @@
+import crypto from "node:crypto";
+
+// In-memory кэш на время жизни инстанса функции:
+// до maxAgeSec отдаём как есть, до maxAgeSec + swrSec — отдаём старое
+// и обновляем в фоне, дальше — ждём свежие данные.
+//
+// generation растёт при каждом invalidate(): загрузка, начатая раньше,
+// может вернуть данные до правки — их отдаём тому, кто ждал, но в кэш
+// не кладём.
+export function createSwrCache({ load, maxAgeSec, swrSec }) {
+  let entry = null;
+  let pending = null;
+  let generation = 0;
+
+  function refresh() {
+    if (!pending) {
+      const startedAt = generation;
+      const current = load()
+        .then((body) => {
+          const loaded = {
+            body,
+            etag: `"${crypto.createHash("sha1").update(body).digest("base64url")}"`,
+            fetchedAt: Date.now(),
+          };
+          if (startedAt === generation) entry = loaded;
+          return loaded;
+        })
+        .finally(() => {
+          if (pending === current) pending = null;
+        });
+      pending = current;
+    }
+    return pending;
+  }
+
+  return {
+    async get() {
+      if (!entry) return refresh();
+
+      const ageSec = (Date.now() - entry.fetchedAt) / 1000;
+      if (ageSec < maxAgeSec) return entry;
+
+      if (ageSec < maxAgeSec + swrSec) {
+        refresh().catch(() => {});
+        return entry;
+      }
+
+      return refresh();
+    },
+
+    invalidate() {
+      generation += 1;
+      entry = null;
+      pending = null;
+    },
+  };
+}
@@ -0,0 +1,43 @@
+// status — error_code из ответа Bot API или HTTP-код.
+export class BotApiError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = "BotApiError";
+    this.status = status;
+  }
+}
+
+// 4xx, кроме 429, повтор не исправит: бот заблокирован, чата нет и т.п.
+// Сетевые ошибки, 5xx и 429 — временные.
+export function isPermanentBotError(e) {
+  return e instanceof BotApiError && e.status >= 400 && e.status < 500 && e.status !== 429;
+}
+
+// Клиент Bot API. TG_API_BASE позволяет направить запросы в локальный
+// фейковый сервер (mock/fake-bot-api.js) вместо api.telegram.org.
+export async function callBotApi(method, params) {
+  const token = process.env.TG_BOT_TOKEN;
+  if (!token) throw new Error("Missing TG_BOT_TOKEN env var");
+
+  const base = process.env.TG_API_BASE || "https://api.telegram.org";
+  const r = await fetch(`${base}/bot${token}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+
+  const data = await r.json().catch(() => ({}));
+
+  if (!r.ok || !data?.ok) {
+    throw new BotApiError(
+      data?.description || `Telegram ${method} HTTP ${r.status}`,
+      Number(data?.error_code) || r.status
+    );
+  }
+
+  return data.result;
+}
+
+export function sendBotMessage(chatId, text) {
+  return callBotApi("sendMessage", { chat_id: chatId, text });
+}
@@ -0,0 +1,90 @@
+import crypto from "node:crypto";
+import { readPositiveEnv } from "./env.js";
+import { HttpError } from "./http.js";
+
+const DEFAULT_MAX_AGE_SEC = 24 * 60 * 60;
+
+export class TelegramAuthError extends HttpError {
+  constructor(message) {
+    super(401, message, "tg_auth_failed");
+    this.name = "TelegramAuthError";
+  }
+}
+
+function safeEqualHex(a, b) {
+  const left = Buffer.from(String(a || ""), "hex");
+  const right = Buffer.from(String(b || ""), "hex");
+  if (!left.length || left.length !== right.length) return false;
+  return crypto.timingSafeEqual(left, right);
+}
+
+// Проверка подписи Telegram.WebApp.initData:
+// https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+export function verifyInitData(initData, botToken) {
+  if (!botToken) {
+    throw new Error("Missing TG_BOT_TOKEN env var");
+  }
+
+  const params = new URLSearchParams(String(initData || ""));
+  const hash = params.get("hash");
+
+  if (!hash) {
+    throw new TelegramAuthError("initData has no hash");
+  }
+
+  params.delete("hash");
+
+  const dataCheckString = Array.from(params.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+  const secret = crypto
+    .createHmac("sha256", "WebAppData")
+    .update(botToken)
+    .digest();
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(dataCheckString)
+    .digest("hex");
+
+  if (!safeEqualHex(expected, hash)) {
+    throw new TelegramAuthError("initData signature mismatch");
+  }
+
+  const authDate = Number(params.get("auth_date"));
+  if (!Number.isFinite(authDate) || authDate <= 0) {
+    throw new TelegramAuthError("initData has no auth_date");
+  }
+
+  const ageSec = Math.floor(Date.now() / 1000) - authDate;
+  if (ageSec > readPositiveEnv("TG_INIT_DATA_MAX_AGE_SEC", DEFAULT_MAX_AGE_SEC)) {
+    throw new TelegramAuthError("initData expired");
+  }
+
+  let user = null;
+  try {
+    user = JSON.parse(params.get("user") || "null");
+  } catch {
+    throw new TelegramAuthError("initData user is malformed");
+  }
+
+  if (!user?.id) {
+    throw new TelegramAuthError("initData has no user");
+  }
+
+  return { user, authDate };
+}
+
+// Пользователь Telegram из проверенного initData или null для обычной
+// веб-версии, где initData нет.
+export function resolveTgUser(initData) {
+  if (!String(initData || "").trim()) return null;
+  return verifyInitData(initData, process.env.TG_BOT_TOKEN).user;
+}
+
+export function resolveTgUserId(initData) {
+  const user = resolveTgUser(initData);
+  return user ? String(user.id) : "";
+}
@@ -0,0 +1,172 @@
+import { callAdminGs, canSetStatus, requireAdmin } from "./_lib/admin.js";
+import { loadCatalog, normalizeProductInput } from "./_lib/catalog.js";
+import {
+  applyCors,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { validateProduct } from "./_lib/product-validation.js";
+
+const GS_ERROR_STATUS = {
+  order_not_found: 404,
+  product_not_found: 404,
+  product_exists: 409,
+  status_conflict: 409,
+};
+
+function gsResult(data) {
+  if (!data?.error) return data;
+  const { error, code, ...extra } = data;
+  throw new HttpError(GS_ERROR_STATUS[code] || 502, error, code || "gs_error", extra);
+}
+
+// Фильтры списка: status — через запятую, from/to — YYYY-MM-DD по дате создания.
+async function listOrders(GS_API_URL, GS_API_TOKEN, query) {
+  const data = await callAdminGs(GS_API_URL, {
+    action: "adminOrders",
+    token: GS_API_TOKEN,
+    status: String(query.status || ""),
+    from: String(query.from || ""),
+    to: String(query.to || ""),
+    limit: Math.min(Number(query.limit) || 100, 500),
+  });
+  return gsResult(data);
+}
+
+async function setStatus(GS_API_URL, GS_API_TOKEN, body, admin) {
+  const orderId = String(body.orderId || "").trim();
+  const status = String(body.status || "").trim().toLowerCase();
+  const expectedStatus = String(body.expectedStatus || "").trim().toLowerCase();
+  const reason = String(body.reason || "").trim().slice(0, 500);
+
+  if (!orderId || !status) {
+    throw new HttpError(400, "orderId and status are required", "bad_request");
+  }
+  if (!canSetStatus(expectedStatus, status)) {
+    throw new HttpError(400, "Status transition is not allowed", "bad_status");
+  }
+  if (status === "canceled" && !reason) {
+    throw new HttpError(400, "Cancel reason is required", "reason_required");
+  }
+
+  // Таблица ещё раз сверяет expectedStatus под блокировкой: если заказ
+  // успел поменять другой оператор, вернётся status_conflict.
+  const data = await callAdminGs(GS_API_URL, {
+    action: "setStatus",
+    token: GS_API_TOKEN,
+    orderId,
+    status,
+    expectedStatus,
+    cancelReason: status === "canceled" ? reason : "",
+    changedBy: admin,
+  });
+  return gsResult(data);
+}
+
+// Кэш каталога живёт в функции /api/products, поэтому сбрасывается тем же
+// хуком, что вызывает onEdit таблицы (запись через API onEdit не вызывает).
+// Ошибка сброса сохранение не отменяет: кэш обновится сам, пусть и позже.
+async function invalidateProductsCache(req, GS_API_TOKEN) {
+  const proto = String(req.headers["x-forwarded-proto"] || "http").split(",")[0];
+
+  try {
+    const r = await fetch(`${proto}://${req.headers.host}/api/products`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "invalidate", token: GS_API_TOKEN }),
+    });
+    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+  } catch (e) {
+    console.error("admin: products cache invalidation failed:", e?.message || e);
+  }
+}
+
+// Товар проверяется по свежему каталогу из таблицы, а не по кэшу
+// /api/products: иначе можно пропустить только что добавленный дубль.
+async function saveProduct(GS_API_URL, GS_API_TOKEN, body) {
+  const product = normalizeProductInput(body.product);
+  const isNew = body.isNew === true;
+  const catalog = await loadCatalog(GS_API_URL);
+
+  if (!isNew && !catalog.some((p) => String(p.id) === product.id)) {
+    throw new HttpError(404, "Product not found", "product_not_found");
+  }
+
+  const errors = validateProduct(product, catalog, { isNew });
+  if (Object.keys(errors).length) {
+    throw new HttpError(422, "Product is invalid", "invalid_product", { errors });
+  }
+
+  const data = await callAdminGs(GS_API_URL, {
+    action: "saveProduct",
+    token: GS_API_TOKEN,
+    isNew,
+    product,
+  });
+  return gsResult(data);
+}
+
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+
+    if (!GS_API_URL) {
+      return res.status(500).json({ error: "Missing GS_API_URL env var" });
+    }
+
+    if (!GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
+    }
+
+    applyCors(req, res, {
+      methods: "GET,POST,OPTIONS",
+      headers: "Content-Type, Authorization, X-Telegram-Init-Data",
+    });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    const admin = requireAdmin(req);
+    res.setHeader("Cache-Control", "no-store");
+
+    if (req.method === "GET") {
+      if (req.query.action === "orders") {
+        return res
+          .status(200)
+          .json(await listOrders(GS_API_URL, GS_API_TOKEN, req.query));
+      }
+
+      if (req.query.action === "products") {
+        return res.status(200).json({ products: await loadCatalog(GS_API_URL) });
+      }
+
+      throw new HttpError(400, "Unknown action", "bad_action");
+    }
+
+    if (req.method === "POST") {
+      const body = parseJsonBody(req);
+
+      if (body.action === "setStatus") {
+        return res
+          .status(200)
+          .json(await setStatus(GS_API_URL, GS_API_TOKEN, body, admin));
+      }
+
+      if (body.action === "saveProduct") {
+        const saved = await saveProduct(GS_API_URL, GS_API_TOKEN, body);
+        await invalidateProductsCache(req, GS_API_TOKEN);
+        return res.status(200).json(saved);
+      }
+
+      throw new HttpError(400, "Unknown action", "bad_action");
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
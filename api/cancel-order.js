@@ -1,3 +1,17 @@
+import { requireCustomer } from "./_lib/customer.js";
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { normalizePhone } from "./_lib/phone.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
 export default async function handler(req, res) {
   try {
     const GS_API_URL = process.env.GS_API_URL;
@@ -11,9 +25,7 @@ export default async function handler(req, res) {
       return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
     }
 
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "POST,OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    applyCors(req, res, { methods: "POST,OPTIONS" });
 
     if (req.method === "OPTIONS") {
       return res.status(200).send("ok");
@@ -23,11 +35,30 @@ export default async function handler(req, res) {
       return res.status(405).json({ error: "Method not allowed" });
     }
 
-    const body =
-      typeof req.body === "string"
-        ? JSON.parse(req.body || "{}")
-        : (req.body || {});
+    const body = parseJsonBody(req);
+
+    const customer = requireCustomer(body);
+    body.tgUserId = customer.tgUserId;
+    body.phone = customer.phone;
+
+    const customerKey = body.tgUserId || normalizePhone(body.phone);
+
+    await enforceRateLimits([
+      {
+        key: `cancel:ip:${getClientIp(req)}`,
+        limit: readPositiveEnv("CANCEL_RATE_LIMIT_PER_IP", 20),
+        windowSec: RATE_WINDOW_SEC,
+      },
+      {
+        key: customerKey ? `cancel:customer:${customerKey}` : "",
+        limit: readPositiveEnv("CANCEL_RATE_LIMIT_PER_CUSTOMER", 10),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
 
+    delete body.initData;
+    delete body.session;
+    body.changedBy = "customer";
     body.token = GS_API_TOKEN;
     body.action = "cancelOrder";
 
@@ -43,6 +74,7 @@ export default async function handler(req, res) {
     const text = await r.text();
     res.status(r.status).send(text);
   } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
     res.status(500).json({ error: String(e?.message || e) });
   }
 }
@@ -0,0 +1,93 @@
+import { isOrderOwner, requireCustomer } from "./_lib/customer.js";
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import {
+  createOrderInvoiceLink,
+  isOnlinePaymentEnabled,
+  isOrderPayable,
+  loadOrderInfo,
+  savePayment,
+} from "./_lib/payments.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
+// Ссылка на оплату заказа. Выдаётся только владельцу заказа (initData или
+// сессия по телефону) и только для заказов с оплатой онлайн; заказы без
+// способа оплаты оформлены до его выбора и тоже оплачиваются онлайн.
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+
+    if (!GS_API_URL) {
+      return res.status(500).json({ error: "Missing GS_API_URL env var" });
+    }
+
+    if (!GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
+    }
+
+    applyCors(req, res, { methods: "POST,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    if (!isOnlinePaymentEnabled()) {
+      throw new HttpError(409, "Online payment is disabled", "payment_disabled");
+    }
+
+    const body = parseJsonBody(req);
+
+    await enforceRateLimits([
+      {
+        key: `invoice:ip:${getClientIp(req)}`,
+        limit: readPositiveEnv("INVOICE_RATE_LIMIT_PER_IP", 20),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
+
+    const orderId = String(body.orderId || "").trim();
+    if (!orderId) {
+      return res.status(400).json({ error: "orderId is required" });
+    }
+
+    const customer = requireCustomer(body);
+
+    // Чужой заказ для покупателя не существует.
+    const order = await loadOrderInfo(GS_API_URL, GS_API_TOKEN, orderId);
+    if (!order || !isOrderOwner(order, customer)) {
+      throw new HttpError(404, "Order not found", "order_not_found");
+    }
+    if (order.paymentMethod && order.paymentMethod !== "online") {
+      throw new HttpError(409, "Order is not paid online", "not_payable");
+    }
+    if (order.paymentStatus === "paid") {
+      throw new HttpError(409, "Order is already paid", "already_paid");
+    }
+    if (!isOrderPayable(order)) {
+      throw new HttpError(409, "Order can not be paid", "not_payable");
+    }
+
+    const invoiceUrl = await createOrderInvoiceLink(order);
+    await savePayment(GS_API_URL, GS_API_TOKEN, orderId, {
+      paymentStatus: "pending",
+    });
+
+    return res.status(200).json({ ok: true, invoiceUrl });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
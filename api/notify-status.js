@@ -0,0 +1,122 @@
+import { assertGsAction, GsActionUnsupportedError } from "./_lib/gs.js";
+import { HttpError, sendHttpError } from "./_lib/http.js";
+import { safeEqual } from "./_lib/session.js";
+import { normalizeStatus, renderStatusMessage } from "./_lib/status-messages.js";
+import { isPermanentBotError, sendBotMessage } from "./_lib/telegram-bot.js";
+
+async function callGs(GS_API_URL, payload) {
+  const r = await fetch(GS_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain;charset=UTF-8",
+      Accept: "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await r.json().catch(() => ({}));
+  assertGsAction(payload.action, data);
+  if (!r.ok) throw new Error(data?.error || `GS HTTP ${r.status}`);
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+// Таблица без statusChanges рассылать нечего: считаем, что изменений нет.
+async function loadStatusChanges(GS_API_URL, GS_API_TOKEN) {
+  try {
+    const { changes = [] } = await callGs(GS_API_URL, {
+      action: "statusChanges",
+      token: GS_API_TOKEN,
+    });
+    return changes;
+  } catch (e) {
+    if (!(e instanceof GsActionUnsupportedError)) throw e;
+    console.error("notify-status: spreadsheet does not support statusChanges");
+    return [];
+  }
+}
+
+// false — сообщение не доставить никогда (покупатель заблокировал бота,
+// чат удалён): такой заказ отмечается, иначе он уходил бы в рассылку на
+// каждом запуске. Временные ошибки пробрасываются — будет повтор.
+async function notifyCustomer(chatId, text, orderId) {
+  try {
+    await sendBotMessage(chatId, text);
+    return true;
+  } catch (e) {
+    if (!isPermanentBotError(e)) throw e;
+    console.error("notify-status: undeliverable", orderId, e.message);
+    return false;
+  }
+}
+
+function isAuthorized(req, GS_API_TOKEN) {
+  const bearer = String(req.headers?.authorization || "").replace(/^Bearer\s+/i, "");
+  if (process.env.CRON_SECRET && safeEqual(bearer, process.env.CRON_SECRET)) {
+    return true;
+  }
+  return safeEqual(bearer, GS_API_TOKEN);
+}
+
+// Рассылка смен статуса покупателям. Вызывается по расписанию триггером
+// Apps Script (или внешним планировщиком с CRON_SECRET): забирает у таблицы
+// заказы, чей статус ещё не был отправлен, пишет в чат tgUserId и отмечает
+// отправку. tgUserId заказу ставит /api/order из проверенного initData.
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+
+    if (!GS_API_URL) {
+      return res.status(500).json({ error: "Missing GS_API_URL env var" });
+    }
+
+    if (!GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
+    }
+
+    if (req.method !== "GET" && req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    if (!isAuthorized(req, GS_API_TOKEN)) {
+      throw new HttpError(403, "Forbidden", "forbidden");
+    }
+
+    const changes = await loadStatusChanges(GS_API_URL, GS_API_TOKEN);
+
+    const report = { sent: 0, skipped: 0, failed: 0 };
+
+    for (const order of changes) {
+      const chatId = order?.tgUserId;
+      // Об отмене, которую покупатель сделал сам, ему не пишем.
+      const selfCanceled =
+        normalizeStatus(order?.status) === "canceled" && order?.changedBy === "customer";
+      const text = selfCanceled ? null : renderStatusMessage(order);
+
+      try {
+        if (chatId && text && (await notifyCustomer(chatId, text, order.orderId))) {
+          report.sent += 1;
+        } else {
+          report.skipped += 1;
+        }
+
+        await callGs(GS_API_URL, {
+          action: "markNotified",
+          token: GS_API_TOKEN,
+          orderId: order.orderId,
+          status: order.status,
+        });
+      } catch (e) {
+        // Не отмечаем — попробуем снова при следующем запуске.
+        report.failed += 1;
+        console.error("notify-status:", order?.orderId, e?.message || e);
+      }
+    }
+
+    res.status(200).json({ ok: true, ...report });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
@@ -1,3 +1,36 @@
+import { loadCatalog } from "./_lib/catalog.js";
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { normalizePhone } from "./_lib/phone.js";
+import { rebuildOrder } from "./_lib/pricing.js";
+import { loadOrderInfo, resolvePaymentMethod } from "./_lib/payments.js";
+import { resolveOrderPromo } from "./_lib/promo.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+import { loadSettings, resolveZone } from "./_lib/settings.js";
+import { reserveSlot } from "./_lib/slots.js";
+import { resolveTgUser } from "./_lib/telegram.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
+// Если таблица не умеет orderInfo, дубль всё равно отсечёт action=order.
+async function isRecordedOrder(GS_API_URL, GS_API_TOKEN, orderId) {
+  const id = String(orderId || "").trim();
+  if (!id) return false;
+
+  try {
+    return !!(await loadOrderInfo(GS_API_URL, GS_API_TOKEN, id));
+  } catch (e) {
+    console.error("order: orderInfo failed:", e?.message || e);
+    return false;
+  }
+}
+
 export default async function handler(req, res) {
   try {
     const GS_API_URL = process.env.GS_API_URL;
@@ -13,9 +46,7 @@ export default async function handler(req, res) {
       return;
     }
 
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "POST,OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    applyCors(req, res, { methods: "POST,OPTIONS" });
 
     if (req.method === "OPTIONS") {
       res.status(200).send("ok");
@@ -27,12 +58,127 @@ export default async function handler(req, res) {
       return;
     }
 
-    const body =
-      typeof req.body === "string"
-        ? JSON.parse(req.body || "{}")
-        : (req.body || {});
+    const body = parseJsonBody(req);
+
+    // Telegram-аккаунт берётся только из подписанного initData: по
+    // tgUserId заказа бот потом пишет покупателю о смене статуса.
+    const tgUser = resolveTgUser(body.initData);
+    const tgUserId = tgUser ? String(tgUser.id) : "";
+
+    // Телефон вводит сам покупатель и может менять его от заказа к заказу,
+    // поэтому проверенный tgUserId ограничивается отдельно.
+    const phone = normalizePhone(body.phone);
+
+    await enforceRateLimits([
+      {
+        key: `order:ip:${getClientIp(req)}`,
+        limit: readPositiveEnv("ORDER_RATE_LIMIT_PER_IP", 10),
+        windowSec: RATE_WINDOW_SEC,
+      },
+      {
+        key: phone ? `order:customer:${phone}` : "",
+        limit: readPositiveEnv("ORDER_RATE_LIMIT_PER_CUSTOMER", 5),
+        windowSec: RATE_WINDOW_SEC,
+      },
+      {
+        key: tgUserId ? `order:tg:${tgUserId}` : "",
+        limit: readPositiveEnv("ORDER_RATE_LIMIT_PER_CUSTOMER", 5),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
+
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      res.status(400).json({ error: "Order has no items" });
+      return;
+    }
+
+    // Повтор из outbox уже записанного заказа: отвечаем duplicate сразу,
+    // иначе его завернут проверки ниже (цены, слот, промокод успели
+    // измениться), хотя заказ принят.
+    if (await isRecordedOrder(GS_API_URL, GS_API_TOKEN, body.orderId)) {
+      res.status(200).json({ ok: true, duplicate: true, orderId: body.orderId });
+      return;
+    }
+
+    const [products, settings] = await Promise.all([
+      loadCatalog(GS_API_URL),
+      loadSettings(),
+    ]);
+    const zone = resolveZone(settings, body.zoneId);
+    const rebuilt = rebuildOrder(products, body, zone);
+
+    if (rebuilt.changes.length) {
+      res.status(409).json({
+        error: "Prices changed",
+        code: "prices_changed",
+        changes: rebuilt.changes,
+        items: rebuilt.items,
+        total: rebuilt.total,
+        delivery: rebuilt.delivery,
+        grandTotal: rebuilt.grandTotal,
+      });
+      return;
+    }
+
+    if (rebuilt.total < zone.minOrderSum) {
+      throw new HttpError(422, "Order total below minimum", "below_min_order", {
+        minOrderSum: zone.minOrderSum,
+      });
+    }
+
+    const slot = await reserveSlot(GS_API_URL, settings.slots, {
+      date: body.deliveryDate,
+      slotId: body.deliverySlot,
+    });
+
+    const promo = await resolveOrderPromo(
+      GS_API_URL,
+      GS_API_TOKEN,
+      {
+        code: body.promoCode,
+        phone,
+        tgUserId,
+      },
+      rebuilt
+    );
+    const discount = promo ? promo.discount : 0;
+    const grandTotal = Number((rebuilt.grandTotal - discount).toFixed(2));
+    const payment = resolvePaymentMethod(body, { grandTotal, settings });
 
-    body.token = GS_API_TOKEN;
+    // В таблицу уходят только поля из контракта (docs/gs-api.md): остальное
+    // тело прислал клиент, и paymentStatus, revision или notifiedStatus
+    // оттуда записались бы в заказ как есть.
+    const order = {
+      token: GS_API_TOKEN,
+      orderId: String(body.orderId || "").trim(),
+      name: String(body.name || ""),
+      phone: String(body.phone || ""),
+      address: String(body.address || ""),
+      comment: String(body.comment || ""),
+      zoneId: zone.id,
+      zoneName: zone.name,
+      ...slot,
+      items: rebuilt.items,
+      total: rebuilt.total,
+      delivery: rebuilt.delivery,
+      promoCode: promo ? promo.promoCode : "",
+      promoLimits: promo ? promo.promoLimits : null,
+      discount,
+      grandTotal,
+      ...payment,
+      tgUserId,
+      tg: tgUser
+        ? {
+            id: tgUser.id,
+            username: String(tgUser.username || ""),
+            first_name: String(tgUser.first_name || ""),
+            last_name: String(tgUser.last_name || ""),
+          }
+        : {},
+      utmSource: String(body.utmSource || ""),
+      utmMedium: String(body.utmMedium || ""),
+      utmCampaign: String(body.utmCampaign || ""),
+    };
 
     const r = await fetch(`${GS_API_URL}?action=order`, {
       method: "POST",
@@ -40,12 +186,16 @@ export default async function handler(req, res) {
         "Content-Type": "text/plain;charset=UTF-8",
         Accept: "application/json",
       },
-      body: JSON.stringify(body),
+      body: JSON.stringify(order),
     });
 
     const text = await r.text();
     res.status(r.status).send(text);
   } catch (e) {
+    if (e instanceof HttpError) {
+      sendHttpError(res, e);
+      return;
+    }
     res.status(500).json({ error: String(e?.message || e) });
   }
 }
@@ -1,3 +1,6 @@
+import { CUSTOMER_AUTH_HEADERS, requireCustomerFromHeaders } from "./_lib/customer.js";
+import { applyCors, HttpError, sendHttpError } from "./_lib/http.js";
+
 export default async function handler(req, res) {
   try {
     const GS_API_URL = process.env.GS_API_URL;
@@ -11,9 +14,10 @@ export default async function handler(req, res) {
       return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
     }
 
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    applyCors(req, res, {
+      methods: "GET,OPTIONS",
+      headers: `Content-Type, ${CUSTOMER_AUTH_HEADERS}`,
+    });
 
     if (req.method === "OPTIONS") {
       return res.status(200).send("ok");
@@ -23,8 +27,10 @@ export default async function handler(req, res) {
       return res.status(405).json({ error: "Method not allowed" });
     }
 
-    const tgUserId = req.query.tgUserId || "";
-    const phone = req.query.phone || "";
+    // Ответ зависит от заголовков, а не от URL, — кэшировать его нельзя.
+    res.setHeader("Cache-Control", "no-store");
+
+    const { tgUserId, phone } = requireCustomerFromHeaders(req);
     const limit = req.query.limit || "30";
 
     const url =
@@ -42,6 +48,7 @@ export default async function handler(req, res) {
     const text = await r.text();
     res.status(r.status).send(text);
   } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
     res.status(500).json({ error: String(e?.message || e) });
   }
 }
@@ -1,3 +1,47 @@
+import { normalizeStock } from "./_lib/catalog.js";
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { safeEqual } from "./_lib/session.js";
+import { createSwrCache } from "./_lib/swr-cache.js";
+
+const MAX_AGE_SEC = readPositiveEnv("PRODUCTS_CACHE_MAX_AGE_SEC", 60);
+const SWR_SEC = readPositiveEnv("PRODUCTS_CACHE_SWR_SEC", 600);
+
+// CDN сбросом кэша не достать, поэтому там каталог живёт недолго: после
+// правки в таблице покупатели увидят её не позже чем через CDN_MAX_AGE_SEC
+// (плюс один устаревший ответ на время фонового обновления).
+const CDN_MAX_AGE_SEC = readPositiveEnv("PRODUCTS_CDN_MAX_AGE_SEC", 10);
+const CDN_SWR_SEC = readPositiveEnv("PRODUCTS_CDN_SWR_SEC", 60);
+
+const cache = createSwrCache({
+  maxAgeSec: MAX_AGE_SEC,
+  swrSec: SWR_SEC,
+  async load() {
+    const r = await fetch(`${process.env.GS_API_URL}?action=products`, {
+      method: "GET",
+      headers: { Accept: "application/json" },
+    });
+
+    const text = await r.text();
+    let data = null;
+    try {
+      data = JSON.parse(text);
+    } catch {}
+
+    if (!r.ok || !data || data.error) {
+      throw new Error(data?.error || `Products HTTP ${r.status}`);
+    }
+
+    const products = Array.isArray(data.products) ? data.products : [];
+    return JSON.stringify({ ...data, products: products.map(normalizeStock) });
+  },
+});
+
 export default async function handler(req, res) {
   try {
     const GS_API_URL = process.env.GS_API_URL;
@@ -7,23 +51,60 @@ export default async function handler(req, res) {
       return;
     }
 
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    applyCors(req, res, {
+      methods: "GET,POST,OPTIONS",
+      headers: "Content-Type, If-None-Match",
+    });
+    res.setHeader("Access-Control-Expose-Headers", "ETag");
 
     if (req.method === "OPTIONS") {
       res.status(200).send("ok");
       return;
     }
 
-    const r = await fetch(`${GS_API_URL}?action=products`, {
-      method: "GET",
-      headers: { Accept: "application/json" },
-    });
+    // Хук сброса кэша: Apps Script вызывает его из триггера onEdit
+    // таблицы с товарами, передавая тот же GS_API_TOKEN. Сбрасывается кэш
+    // только того инстанса, куда попал запрос; остальные обновятся сами
+    // не позже чем через MAX_AGE_SEC.
+    if (req.method === "POST") {
+      const body = parseJsonBody(req);
 
-    const text = await r.text();
-    res.status(r.status).send(text);
+      if (body.action !== "invalidate") {
+        res.status(400).json({ error: "Unknown action" });
+        return;
+      }
+
+      if (!safeEqual(body.token, process.env.GS_API_TOKEN)) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+
+      cache.invalidate();
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    const entry = await cache.get();
+
+    res.setHeader(
+      "Cache-Control",
+      `public, max-age=0, s-maxage=${CDN_MAX_AGE_SEC}, stale-while-revalidate=${CDN_SWR_SEC}`
+    );
+    res.setHeader("ETag", entry.etag);
+
+    if (req.headers["if-none-match"] === entry.etag) {
+      res.status(304).end();
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.status(200).send(entry.body);
   } catch (e) {
+    if (e instanceof HttpError) {
+      sendHttpError(res, e);
+      return;
+    }
     res.status(500).json({ error: String(e?.message || e) });
   }
 }
@@ -0,0 +1,88 @@
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { loadProfile, storeProfile } from "./_lib/profile.js";
+import { normalizeProfile } from "./_lib/profile-normalize.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+import { resolveTgUserId } from "./_lib/telegram.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
+// Профиль на сервере есть только у покупателей из Telegram: вне его
+// адресная книга живёт в localStorage браузера.
+function requireTgUser(initData) {
+  const tgUserId = resolveTgUserId(initData);
+  if (!tgUserId) {
+    throw new HttpError(401, "Telegram auth required", "tg_auth_required");
+  }
+  return tgUserId;
+}
+
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+
+    if (!GS_API_URL) {
+      return res.status(500).json({ error: "Missing GS_API_URL env var" });
+    }
+
+    if (!GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
+    }
+
+    applyCors(req, res, {
+      methods: "GET,POST,OPTIONS",
+      headers: "Content-Type, X-Telegram-Init-Data",
+    });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    res.setHeader("Cache-Control", "no-store");
+
+    if (req.method === "GET") {
+      // initData — заголовком: строка запроса попадает в логи.
+      const tgUserId = requireTgUser(req.headers["x-telegram-init-data"]);
+      const profile = await loadProfile(GS_API_URL, GS_API_TOKEN, tgUserId);
+      return res.status(200).json({ profile });
+    }
+
+    if (req.method === "POST") {
+      const body = parseJsonBody(req);
+      const tgUserId = requireTgUser(body.initData);
+
+      await enforceRateLimits([
+        {
+          key: `profile:ip:${getClientIp(req)}`,
+          limit: readPositiveEnv("PROFILE_RATE_LIMIT_PER_IP", 60),
+          windowSec: RATE_WINDOW_SEC,
+        },
+        {
+          key: `profile:tg:${tgUserId}`,
+          limit: readPositiveEnv("PROFILE_RATE_LIMIT_PER_CUSTOMER", 30),
+          windowSec: RATE_WINDOW_SEC,
+        },
+      ]);
+
+      const profile = await storeProfile(
+        GS_API_URL,
+        GS_API_TOKEN,
+        tgUserId,
+        normalizeProfile(body.profile)
+      );
+      return res.status(200).json({ ok: true, profile });
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
@@ -0,0 +1,82 @@
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { normalizePhone } from "./_lib/phone.js";
+import {
+  applyPromo,
+  loadPromo,
+  normalizePromoCode,
+  publicPromo,
+} from "./_lib/promo.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+import { resolveTgUserId } from "./_lib/telegram.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
+// Предварительная проверка промокода для корзины. Окончательно скидка
+// считается в /api/order по пересобранному заказу.
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+
+    if (!GS_API_URL) {
+      return res.status(500).json({ error: "Missing GS_API_URL env var" });
+    }
+
+    if (!GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
+    }
+
+    applyCors(req, res, { methods: "POST,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const body = parseJsonBody(req);
+
+    // Перебор кодов ограничиваем по IP.
+    await enforceRateLimits([
+      {
+        key: `promo:ip:${getClientIp(req)}`,
+        limit: readPositiveEnv("PROMO_RATE_LIMIT_PER_IP", 20),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
+
+    const code = normalizePromoCode(body.code);
+    if (!code) {
+      throw new HttpError(422, "Promo code not found", "promo_not_found");
+    }
+
+    const found = await loadPromo(GS_API_URL, GS_API_TOKEN, {
+      code,
+      phone: normalizePhone(body.phone),
+      tgUserId: resolveTgUserId(body.initData),
+      excludeOrderId: String(body.orderId || "").trim(),
+    });
+
+    const total = Number(body.total) || 0;
+    const delivery = Number(body.delivery) || 0;
+    const { discount } = applyPromo(found, { total, delivery });
+
+    return res.status(200).json({
+      ok: true,
+      promo: publicPromo(found.promo),
+      discount,
+    });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
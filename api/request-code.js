@@ -0,0 +1,68 @@
+import crypto from "node:crypto";
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { deliverCode } from "./_lib/otp-delivery.js";
+import { normalizePhone } from "./_lib/phone.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+import { hashSecret, signToken } from "./_lib/session.js";
+
+const CODE_TTL_SEC = 5 * 60;
+const RATE_WINDOW_SEC = 10 * 60;
+
+export default async function handler(req, res) {
+  try {
+    applyCors(req, res, { methods: "POST,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const body = parseJsonBody(req);
+    const phone = normalizePhone(body.phone);
+
+    if (phone.length < 10) {
+      return res.status(400).json({ error: "Invalid phone", code: "bad_phone" });
+    }
+
+    await enforceRateLimits([
+      {
+        key: `otp:ip:${getClientIp(req)}`,
+        limit: readPositiveEnv("OTP_RATE_LIMIT_PER_IP", 10),
+        windowSec: RATE_WINDOW_SEC,
+      },
+      {
+        key: `otp:phone:${phone}`,
+        limit: readPositiveEnv("OTP_RATE_LIMIT_PER_PHONE", 3),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
+
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, "0");
+    const challenge = signToken(
+      { kind: "otp", phone, codeHash: hashSecret(`${phone}:${code}`) },
+      CODE_TTL_SEC
+    );
+
+    const provider = await deliverCode({ phone, code });
+
+    res.status(200).json({
+      ok: true,
+      challenge: challenge.token,
+      expiresAt: challenge.expiresAt,
+      provider,
+    });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
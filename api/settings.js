@@ -0,0 +1,42 @@
+import { applyCors, HttpError, sendHttpError } from "./_lib/http.js";
+import { isOnlinePaymentEnabled } from "./_lib/payments.js";
+import { loadSettings } from "./_lib/settings.js";
+
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+
+    if (!GS_API_URL) {
+      res.status(500).json({ error: "Missing GS_API_URL env var" });
+      return;
+    }
+
+    applyCors(req, res, { methods: "GET,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      res.status(200).send("ok");
+      return;
+    }
+
+    if (req.method !== "GET") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+
+    const settings = await loadSettings();
+
+    res.setHeader(
+      "Cache-Control",
+      "public, max-age=0, s-maxage=60, stale-while-revalidate=600"
+    );
+    res.status(200).json({
+      settings: { ...settings, onlinePayment: isOnlinePaymentEnabled() },
+    });
+  } catch (e) {
+    if (e instanceof HttpError) {
+      sendHttpError(res, e);
+      return;
+    }
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
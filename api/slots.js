@@ -0,0 +1,50 @@
+import { applyCors, HttpError, sendHttpError } from "./_lib/http.js";
+import { loadSettings } from "./_lib/settings.js";
+import { buildSlotDays, loadSlotUsage, slotDateRange } from "./_lib/slots.js";
+
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+
+    if (!GS_API_URL) {
+      res.status(500).json({ error: "Missing GS_API_URL env var" });
+      return;
+    }
+
+    applyCors(req, res, { methods: "GET,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      res.status(200).send("ok");
+      return;
+    }
+
+    if (req.method !== "GET") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+
+    const schedule = (await loadSettings()).slots;
+
+    if (!schedule.windows.length) {
+      res.status(200).json({ enabled: false, days: [] });
+      return;
+    }
+
+    // При изменении заказа его собственная запись не занимает место.
+    const excludeOrderId = String(req.query?.excludeOrderId || "").trim();
+    const usage = await loadSlotUsage(GS_API_URL, schedule, {
+      ...slotDateRange(schedule),
+      excludeOrderId,
+    });
+
+    // Остатки мест меняются с каждым заказом — не кешируем.
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({ enabled: true, days: buildSlotDays(schedule, usage) });
+  } catch (e) {
+    if (e instanceof HttpError) {
+      sendHttpError(res, e);
+      return;
+    }
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
@@ -0,0 +1,136 @@
+import { HttpError, parseJsonBody, sendHttpError } from "./_lib/http.js";
+import { linkTelegramPhone } from "./_lib/otp-delivery.js";
+import {
+  isOrderPayable,
+  loadOrderInfo,
+  paymentCurrency,
+  savePayment,
+  toMinorUnits,
+} from "./_lib/payments.js";
+import { safeEqual } from "./_lib/session.js";
+import { callBotApi, sendBotMessage } from "./_lib/telegram-bot.js";
+
+// Перед списанием Telegram спрашивает, актуален ли заказ. Ответить нужно
+// за 10 секунд, иначе платёж отменится.
+async function handlePreCheckout(query, { GS_API_URL, GS_API_TOKEN }) {
+  let error = "";
+
+  try {
+    const order = await loadOrderInfo(GS_API_URL, GS_API_TOKEN, String(query.invoice_payload));
+
+    if (!order || !isOrderPayable(order)) {
+      error = "Заказ уже оплачен или отменён.";
+    } else if (
+      query.currency !== paymentCurrency() ||
+      query.total_amount !== toMinorUnits(order.grandTotal)
+    ) {
+      error = "Сумма заказа изменилась. Откройте оплату из «Моих заказов» заново.";
+    }
+  } catch (e) {
+    console.error("pre_checkout_query:", e?.message || e);
+    error = "Не удалось проверить заказ, попробуйте ещё раз.";
+  }
+
+  await callBotApi("answerPreCheckoutQuery", {
+    pre_checkout_query_id: query.id,
+    ok: !error,
+    ...(error ? { error_message: error } : {}),
+  });
+}
+
+async function handleSuccessfulPayment(message, { GS_API_URL, GS_API_TOKEN }) {
+  const payment = message.successful_payment;
+
+  await savePayment(GS_API_URL, GS_API_TOKEN, String(payment.invoice_payload), {
+    paymentStatus: "paid",
+    paidAt: new Date().toISOString(),
+    paidAmount: (Number(payment.total_amount) || 0) / 100,
+    paymentCurrency: payment.currency,
+    telegramChargeId: payment.telegram_payment_charge_id,
+    providerChargeId: payment.provider_payment_charge_id,
+  });
+}
+
+// На /start бот предлагает поделиться номером: только так номер
+// привязывается к чату для кодов входа (OTP_PROVIDER=telegram).
+async function handleStart(message) {
+  await callBotApi("sendMessage", {
+    chat_id: message.chat.id,
+    text: "Чтобы получать коды входа на сайте в этот чат, поделитесь номером телефона.",
+    reply_markup: {
+      keyboard: [[{ text: "Поделиться номером", request_contact: true }]],
+      resize_keyboard: true,
+      one_time_keyboard: true,
+    },
+  });
+}
+
+// Контакт принимаем, только если пользователь прислал свой собственный:
+// user_id контакта совпадает с отправителем.
+async function handleContact(message) {
+  const { contact } = message;
+  const fromId = message.from?.id;
+
+  if (!fromId || contact.user_id !== fromId) {
+    await handleStart(message);
+    return;
+  }
+
+  try {
+    await linkTelegramPhone(fromId, contact.phone_number);
+  } catch (e) {
+    console.error("contact:", e?.message || e);
+    await sendBotMessage(message.chat.id, "Не удалось привязать номер, попробуйте позже.");
+    return;
+  }
+
+  await callBotApi("sendMessage", {
+    chat_id: message.chat.id,
+    text: "Номер привязан: коды входа будут приходить сюда.",
+    reply_markup: { remove_keyboard: true },
+  });
+}
+
+// Вебхук бота (setWebhook с secret_token = TG_WEBHOOK_SECRET).
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+    const secret = process.env.TG_WEBHOOK_SECRET;
+
+    if (!GS_API_URL || !GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_URL/GS_API_TOKEN env var" });
+    }
+
+    if (!secret) {
+      return res.status(500).json({ error: "Missing TG_WEBHOOK_SECRET env var" });
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const header = String(req.headers["x-telegram-bot-api-secret-token"] || "");
+    if (!safeEqual(header, secret)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const update = parseJsonBody(req);
+    const gs = { GS_API_URL, GS_API_TOKEN };
+
+    if (update.pre_checkout_query) {
+      await handlePreCheckout(update.pre_checkout_query, gs);
+    } else if (update.message?.successful_payment) {
+      await handleSuccessfulPayment(update.message, gs);
+    } else if (update.message?.contact) {
+      await handleContact(update.message);
+    } else if (/^\/start\b/.test(String(update.message?.text || ""))) {
+      await handleStart(update.message);
+    }
+
+    return res.status(200).json({ ok: true });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
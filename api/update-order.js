@@ -0,0 +1,160 @@
+import { loadCatalog } from "./_lib/catalog.js";
+import { requireCustomer } from "./_lib/customer.js";
+import { readPositiveEnv } from "./_lib/env.js";
+import { assertGsAction } from "./_lib/gs.js";
+import {
+  applyCors,
+  getClientIp,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { rebuildOrder } from "./_lib/pricing.js";
+import { resolvePaymentMethod } from "./_lib/payments.js";
+import { resolveOrderPromo } from "./_lib/promo.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+import { loadSettings, resolveZone } from "./_lib/settings.js";
+import { reserveSlot } from "./_lib/slots.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
+// Правка заказа в статусе new: тот же orderId, новая ревизия.
+// Apps Script хранит прежние версии в истории заказа.
+export default async function handler(req, res) {
+  try {
+    const GS_API_URL = process.env.GS_API_URL;
+    const GS_API_TOKEN = process.env.GS_API_TOKEN;
+
+    if (!GS_API_URL) {
+      return res.status(500).json({ error: "Missing GS_API_URL env var" });
+    }
+
+    if (!GS_API_TOKEN) {
+      return res.status(500).json({ error: "Missing GS_API_TOKEN env var" });
+    }
+
+    applyCors(req, res, { methods: "POST,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const body = parseJsonBody(req);
+    const customer = requireCustomer(body);
+    const customerKey = customer.tgUserId || customer.phone;
+
+    await enforceRateLimits([
+      {
+        key: `update:ip:${getClientIp(req)}`,
+        limit: readPositiveEnv("UPDATE_RATE_LIMIT_PER_IP", 20),
+        windowSec: RATE_WINDOW_SEC,
+      },
+      {
+        key: `update:customer:${customerKey}`,
+        limit: readPositiveEnv("UPDATE_RATE_LIMIT_PER_CUSTOMER", 10),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
+
+    if (!String(body.orderId || "").trim()) {
+      return res.status(400).json({ error: "orderId is required" });
+    }
+
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      return res.status(400).json({ error: "Order has no items" });
+    }
+
+    const [products, settings] = await Promise.all([
+      loadCatalog(GS_API_URL),
+      loadSettings(),
+    ]);
+    const zone = resolveZone(settings, body.zoneId);
+    const rebuilt = rebuildOrder(products, body, zone);
+
+    if (rebuilt.changes.length) {
+      return res.status(409).json({
+        error: "Prices changed",
+        code: "prices_changed",
+        changes: rebuilt.changes,
+        items: rebuilt.items,
+        total: rebuilt.total,
+        delivery: rebuilt.delivery,
+        grandTotal: rebuilt.grandTotal,
+      });
+    }
+
+    if (rebuilt.total < zone.minOrderSum) {
+      throw new HttpError(422, "Order total below minimum", "below_min_order", {
+        minOrderSum: zone.minOrderSum,
+      });
+    }
+
+    const slot = await reserveSlot(GS_API_URL, settings.slots, {
+      date: body.deliveryDate,
+      slotId: body.deliverySlot,
+      excludeOrderId: String(body.orderId).trim(),
+    });
+
+    const promo = await resolveOrderPromo(
+      GS_API_URL,
+      GS_API_TOKEN,
+      {
+        code: body.promoCode,
+        phone: customer.phone,
+        tgUserId: customer.tgUserId,
+        excludeOrderId: String(body.orderId).trim(),
+      },
+      rebuilt
+    );
+    const discount = promo ? promo.discount : 0;
+    const grandTotal = Number((rebuilt.grandTotal - discount).toFixed(2));
+    const payment = resolvePaymentMethod(body, { grandTotal, settings });
+
+    const update = {
+      action: "updateOrder",
+      token: GS_API_TOKEN,
+      orderId: String(body.orderId).trim(),
+      revision: Number(body.revision) || 1,
+      tgUserId: customer.tgUserId,
+      phone: customer.phone,
+      address: String(body.address || ""),
+      comment: String(body.comment || ""),
+      zoneId: zone.id,
+      zoneName: zone.name,
+      ...slot,
+      items: rebuilt.items,
+      total: rebuilt.total,
+      delivery: rebuilt.delivery,
+      promoCode: promo ? promo.promoCode : "",
+      promoLimits: promo ? promo.promoLimits : null,
+      discount,
+      grandTotal,
+      ...payment,
+    };
+
+    const r = await fetch(GS_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "text/plain;charset=UTF-8",
+        Accept: "application/json",
+      },
+      body: JSON.stringify(update),
+    });
+
+    const text = await r.text();
+    let data = null;
+    try {
+      data = JSON.parse(text);
+    } catch {}
+    assertGsAction("updateOrder", data);
+
+    res.status(r.status).send(text);
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
@@ -0,0 +1,61 @@
+import { readPositiveEnv } from "./_lib/env.js";
+import {
+  applyCors,
+  HttpError,
+  parseJsonBody,
+  sendHttpError,
+} from "./_lib/http.js";
+import { enforceRateLimits } from "./_lib/rate-limit.js";
+import {
+  hashSecret,
+  safeEqual,
+  signToken,
+  verifyToken,
+} from "./_lib/session.js";
+
+const RATE_WINDOW_SEC = 10 * 60;
+
+export default async function handler(req, res) {
+  try {
+    applyCors(req, res, { methods: "POST,OPTIONS" });
+
+    if (req.method === "OPTIONS") {
+      return res.status(200).send("ok");
+    }
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const body = parseJsonBody(req);
+    const challenge = verifyToken(body.challenge, "otp");
+    const code = String(body.code || "").replace(/\D+/g, "");
+
+    await enforceRateLimits([
+      {
+        key: `otp-verify:phone:${challenge.phone}`,
+        limit: readPositiveEnv("OTP_VERIFY_LIMIT_PER_PHONE", 10),
+        windowSec: RATE_WINDOW_SEC,
+      },
+    ]);
+
+    if (!safeEqual(hashSecret(`${challenge.phone}:${code}`), challenge.codeHash)) {
+      throw new HttpError(401, "Wrong code", "otp_wrong_code");
+    }
+
+    const session = signToken(
+      { kind: "phone", phone: challenge.phone },
+      readPositiveEnv("PHONE_SESSION_TTL_SEC", 12 * 60 * 60)
+    );
+
+    res.status(200).json({
+      ok: true,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      phone: challenge.phone,
+    });
+  } catch (e) {
+    if (e instanceof HttpError) return sendHttpError(res, e);
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+}
@@ -0,0 +1,189 @@
+// Фейковый Telegram Bot API: принимает /bot<token>/<method>, складывает
+// вызовы в память и печатает их в консоль. GET /messages — всё, что
+// «отправил» бот; DELETE /messages — очистить.
+//
+// Заодно это фейковый платёжный провайдер: createInvoiceLink возвращает
+// ссылку /pay/<id>. GET открывает страницу оплаты, POST «платит» —
+// шлёт на вебхук pre_checkout_query и, если бот ответил ok,
+// сообщение с successful_payment. Тело POST { fail: true } — отказ банка.
+import crypto from "node:crypto";
+import http from "node:http";
+import { pathToFileURL } from "node:url";
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw) return {};
+  if (String(req.headers["content-type"] || "").includes("x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return JSON.parse(raw);
+}
+
+function renderPayPage(invoice) {
+  const amount = (invoice.total_amount / 100).toFixed(2);
+  return `<!doctype html><meta charset="utf-8">
+<title>${invoice.title}</title>
+<body style="font-family:sans-serif;max-width:420px;margin:40px auto">
+<h2>${invoice.title}</h2>
+<p>${invoice.description}</p>
+<p><b>${amount} ${invoice.currency}</b> · статус: ${invoice.status}</p>
+<form method="post"><button>Оплатить (тест)</button></form>
+<form method="post"><input type="hidden" name="fail" value="1"><button>Отказ банка</button></form>
+</body>`;
+}
+
+export function createFakeBotApi() {
+  const calls = [];
+  const invoices = new Map();
+  const preCheckoutAnswers = new Map();
+  let webhook = null;
+  let nextMessageId = 1;
+  let nextUpdateId = 1;
+
+  function setWebhook(url, secretToken = "") {
+    webhook = url ? { url, secretToken } : null;
+  }
+
+  async function deliverUpdate(update) {
+    if (!webhook) throw new Error("Webhook is not set");
+
+    const r = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Telegram-Bot-Api-Secret-Token": webhook.secretToken,
+      },
+      body: JSON.stringify({ update_id: nextUpdateId++, ...update }),
+    });
+    if (!r.ok) throw new Error(`Webhook HTTP ${r.status}`);
+  }
+
+  async function pay(invoice, { fail = false } = {}) {
+    const queryId = crypto.randomUUID();
+    const from = { id: 1, first_name: "Test" };
+
+    await deliverUpdate({
+      pre_checkout_query: {
+        id: queryId,
+        from,
+        currency: invoice.currency,
+        total_amount: invoice.total_amount,
+        invoice_payload: invoice.payload,
+      },
+    });
+
+    const answer = preCheckoutAnswers.get(queryId);
+    if (!answer?.ok || fail) {
+      invoice.status = "failed";
+      return { status: "failed", error: answer?.error_message || "Payment declined" };
+    }
+
+    await deliverUpdate({
+      message: {
+        message_id: nextMessageId++,
+        from,
+        chat: { id: from.id, type: "private" },
+        date: Math.floor(Date.now() / 1000),
+        successful_payment: {
+          currency: invoice.currency,
+          total_amount: invoice.total_amount,
+          invoice_payload: invoice.payload,
+          telegram_payment_charge_id: `tg_${queryId}`,
+          provider_payment_charge_id: `fake_${queryId}`,
+        },
+      },
+    });
+
+    invoice.status = "paid";
+    return { status: "paid" };
+  }
+
+  function handleMethod(method, params, origin) {
+    if (method === "setWebhook") {
+      setWebhook(params.url, params.secret_token);
+      return true;
+    }
+
+    if (method === "createInvoiceLink") {
+      const id = crypto.randomUUID();
+      const total = (params.prices || []).reduce((s, p) => s + (Number(p.amount) || 0), 0);
+      invoices.set(id, { ...params, id, total_amount: total, status: "pending" });
+      return `${origin}/pay/${id}`;
+    }
+
+    if (method === "answerPreCheckoutQuery") {
+      preCheckoutAnswers.set(params.pre_checkout_query_id, params);
+      return true;
+    }
+
+    return { message_id: nextMessageId++, chat: { id: params.chat_id } };
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const origin = `http://${req.headers.host}`;
+    const send = (status, body) => {
+      res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/messages") {
+      if (req.method === "DELETE") calls.length = 0;
+      send(200, { ok: true, result: calls });
+      return;
+    }
+
+    const payMatch = url.pathname.match(/^\/pay\/([\w-]+)$/);
+    if (payMatch) {
+      const invoice = invoices.get(payMatch[1]);
+      if (!invoice) {
+        send(404, { ok: false, description: "Invoice not found" });
+        return;
+      }
+
+      if (req.method === "POST") {
+        try {
+          const body = await readBody(req);
+          const result = await pay(invoice, { fail: !!body.fail });
+          console.log(`[fake-bot] invoice ${invoice.payload}: ${result.status}`);
+          if (String(req.headers.accept || "").includes("application/json")) {
+            send(200, { ok: true, result });
+            return;
+          }
+        } catch (e) {
+          send(502, { ok: false, description: String(e?.message || e) });
+          return;
+        }
+      }
+
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(renderPayPage(invoice));
+      return;
+    }
+
+    const match = url.pathname.match(/^\/bot([^/]+)\/(\w+)$/);
+    if (!match) {
+      send(404, { ok: false, description: "Not Found" });
+      return;
+    }
+
+    const [, token, method] = match;
+    const params = req.method === "POST" ? await readBody(req) : {};
+
+    calls.push({ token, method, params, at: new Date().toISOString() });
+    console.log(`[fake-bot] ${method} ${params.chat_id ?? ""}: ${params.text ?? ""}`);
+
+    send(200, { ok: true, result: handleMethod(method, params, origin) });
+  });
+
+  return { server, calls, invoices, setWebhook };
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || "").href) {
+  const port = Number(process.env.FAKE_BOT_PORT) || 8788;
+  createFakeBotApi().server.listen(port, () => {
+    console.log(`Fake Bot API: TG_API_BASE=http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,518 @@
+// Локальная замена Google Apps Script бэкенда. Действия и ответы
+// описаны в docs/gs-api.md — меняя одно, меняйте и другое.
+// Запуск: npm run mock:gs (или автоматически из `npm run dev:mock`).
+import http from "node:http";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { createFileStore } from "./store.js";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+export const MOCK_GS_TOKEN = process.env.MOCK_GS_TOKEN || "dev-token";
+
+function normalizePhone(p) {
+  return String(p || "").replace(/\D+/g, "");
+}
+
+function requireToken(token) {
+  if (token !== MOCK_GS_TOKEN) throw new Error("Unauthorized");
+}
+
+function isOwner(order, tgUserId, phone) {
+  const tgId = String(order.tgUserId || "");
+  if (tgUserId && tgId && tgId === String(tgUserId)) return true;
+  const digits = normalizePhone(phone);
+  return digits.length >= 6 && normalizePhone(order.phone) === digits;
+}
+
+function isActiveOrder(o) {
+  return String(o.status).toLowerCase() !== "canceled";
+}
+
+// Сколько активных заказов уже записано на окно доставки.
+function countSlotBookings(orders, date, slotId, excludeOrderId = "") {
+  return orders.filter(
+    (o) =>
+      o.deliveryDate === date &&
+      o.deliverySlot === slotId &&
+      o.orderId !== excludeOrderId &&
+      isActiveOrder(o)
+  ).length;
+}
+
+function slotIsFull(orders, body, excludeOrderId) {
+  if (!body.deliverySlot || !body.slotCapacity) return false;
+  return (
+    countSlotBookings(orders, body.deliveryDate, body.deliverySlot, excludeOrderId) >=
+    Number(body.slotCapacity)
+  );
+}
+
+// Поля заказа из контракта action=order; остальное тело в строку не пишется.
+const ORDER_FIELDS = [
+  "name",
+  "phone",
+  "address",
+  "comment",
+  "zoneId",
+  "zoneName",
+  "deliveryDate",
+  "deliverySlot",
+  "deliveryWindow",
+  "items",
+  "total",
+  "delivery",
+  "promoCode",
+  "discount",
+  "grandTotal",
+  "paymentMethod",
+  "changeFrom",
+  "tgUserId",
+  "tg",
+  "utmSource",
+  "utmMedium",
+  "utmCampaign",
+];
+
+function pickOrderFields(body) {
+  return Object.fromEntries(
+    ORDER_FIELDS.filter((key) => body[key] !== undefined).map((key) => [key, body[key]])
+  );
+}
+
+const SLOT_FULL = { error: "Delivery slot is full", code: "slot_full" };
+
+function countPromoUses(orders, code, { tgUserId, phone, excludeOrderId = "" }) {
+  const uses = orders.filter(
+    (o) => o.promoCode === code && o.orderId !== excludeOrderId && isActiveOrder(o)
+  );
+  return {
+    used: uses.length,
+    usedByCustomer: uses.filter((o) => isOwner(o, tgUserId, phone)).length,
+  };
+}
+
+// Повторная проверка лимитов промокода в момент записи заказа.
+function promoLimitError(orders, body, excludeOrderId) {
+  const limits = body.promoLimits;
+  if (!body.promoCode || !limits) return null;
+
+  const { used, usedByCustomer } = countPromoUses(orders, body.promoCode, {
+    tgUserId: body.tgUserId,
+    phone: body.phone,
+    excludeOrderId,
+  });
+
+  if (limits.maxUses && used >= limits.maxUses) {
+    return { error: "Promo code usage limit reached", code: "promo_exhausted" };
+  }
+  if (limits.maxUsesPerCustomer && usedByCustomer >= limits.maxUsesPerCustomer) {
+    return { error: "Promo code already used", code: "promo_already_used" };
+  }
+  return null;
+}
+
+const actions = {
+  products({ store }) {
+    return { products: store.load().products };
+  },
+
+  settings({ store }) {
+    return { settings: store.load().settings || {} };
+  },
+
+  promo({ params, store }) {
+    requireToken(params.token);
+
+    const code = String(params.code || "").trim().toUpperCase();
+    const data = store.load();
+    const promo = (data.promos || []).find(
+      (p) => String(p.code).toUpperCase() === code
+    );
+    if (!promo) return { promo: null };
+
+    return {
+      promo,
+      ...countPromoUses(data.orders, promo.code, {
+        tgUserId: String(params.tgUserId || ""),
+        phone: String(params.phone || ""),
+        excludeOrderId: String(params.excludeOrderId || ""),
+      }),
+    };
+  },
+
+  slotUsage({ params, store }) {
+    const from = String(params.from || "");
+    const to = String(params.to || "");
+    const excludeOrderId = String(params.excludeOrderId || "");
+    const usage = {};
+
+    store.load().orders.forEach((o) => {
+      if (!o.deliveryDate || !o.deliverySlot) return;
+      if (o.deliveryDate < from || o.deliveryDate > to) return;
+      if (o.orderId === excludeOrderId) return;
+      if (!isActiveOrder(o)) return;
+      const key = `${o.deliveryDate}|${o.deliverySlot}`;
+      usage[key] = (usage[key] || 0) + 1;
+    });
+
+    return { usage };
+  },
+
+  order({ body, store }) {
+    requireToken(body.token);
+
+    const orderId = String(body.orderId || "").trim();
+    if (!orderId) throw new Error("orderId is required");
+
+    return store.update((data) => {
+      if (data.orders.some((o) => o.orderId === orderId)) {
+        return { ok: true, duplicate: true, orderId };
+      }
+      if (slotIsFull(data.orders, body)) return SLOT_FULL;
+      const promoError = promoLimitError(data.orders, body);
+      if (promoError) return promoError;
+
+      data.orders.push({
+        ...pickOrderFields(body),
+        orderId,
+        createdAt: new Date().toISOString(),
+        status: "new",
+        cancelReason: "",
+      });
+
+      return { ok: true, duplicate: false, orderId };
+    });
+  },
+
+  orders({ params, store }) {
+    requireToken(params.token);
+
+    const tgUserId = String(params.tgUserId || "");
+    const phone = String(params.phone || "");
+    const limit = Number(params.limit) || 30;
+
+    const orders = store
+      .load()
+      .orders.filter((o) => isOwner(o, tgUserId, phone))
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))
+      .slice(0, limit);
+
+    return { orders };
+  },
+
+  // Только номера, которыми пользователь сам поделился с ботом: телефон
+  // в заказе вводит покупатель, и по нему чат искать нельзя.
+  tgChatByPhone({ params, store }) {
+    requireToken(params.token);
+
+    const link = (store.load().tgPhones || {})[normalizePhone(params.phone)];
+    return { chatId: link ? link.tgUserId : null };
+  },
+
+  linkTgPhone({ body, store }) {
+    requireToken(body.token);
+
+    const phone = normalizePhone(body.phone);
+    if (!phone || !body.tgUserId) throw new Error("tgUserId and phone are required");
+
+    return store.update((data) => {
+      data.tgPhones = data.tgPhones || {};
+      data.tgPhones[phone] = {
+        tgUserId: String(body.tgUserId),
+        linkedAt: new Date().toISOString(),
+      };
+      return { ok: true };
+    });
+  },
+
+  updateOrder({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      const order = data.orders.find((o) => o.orderId === body.orderId);
+      if (!order || !isOwner(order, body.tgUserId, body.phone)) {
+        throw new Error("Order not found");
+      }
+      if (String(order.status).toLowerCase() !== "new") {
+        throw new Error("Order can no longer be changed");
+      }
+      if (order.paymentStatus === "paid") {
+        throw new Error("Paid order can not be changed");
+      }
+
+      const current = Number(order.revision) || 1;
+      if (Number(body.revision) !== current) {
+        return {
+          error: "Order was changed in the meantime",
+          code: "revision_conflict",
+          revision: current,
+        };
+      }
+      if (slotIsFull(data.orders, body, order.orderId)) return SLOT_FULL;
+      const promoError = promoLimitError(data.orders, body, order.orderId);
+      if (promoError) return promoError;
+
+      order.history = [
+        ...(order.history || []),
+        {
+          revision: current,
+          updatedAt: order.updatedAt || order.createdAt,
+          address: order.address,
+          comment: order.comment,
+          zoneId: order.zoneId,
+          zoneName: order.zoneName,
+          deliveryDate: order.deliveryDate,
+          deliverySlot: order.deliverySlot,
+          deliveryWindow: order.deliveryWindow,
+          promoCode: order.promoCode,
+          discount: order.discount,
+          paymentMethod: order.paymentMethod,
+          changeFrom: order.changeFrom,
+          items: order.items,
+          total: order.total,
+          delivery: order.delivery,
+          grandTotal: order.grandTotal,
+        },
+      ];
+
+      Object.assign(order, {
+        revision: current + 1,
+        updatedAt: new Date().toISOString(),
+        address: body.address,
+        comment: body.comment,
+        zoneId: body.zoneId,
+        zoneName: body.zoneName,
+        deliveryDate: body.deliveryDate,
+        deliverySlot: body.deliverySlot,
+        deliveryWindow: body.deliveryWindow,
+        promoCode: body.promoCode,
+        discount: body.discount,
+        paymentMethod: body.paymentMethod,
+        changeFrom: body.changeFrom,
+        items: body.items,
+        total: body.total,
+        delivery: body.delivery,
+        grandTotal: body.grandTotal,
+      });
+
+      return { ok: true, orderId: order.orderId, revision: order.revision };
+    });
+  },
+
+  // Заказы, чей текущий статус ещё не отправлен покупателю.
+  statusChanges({ body, store }) {
+    requireToken(body.token);
+
+    const changes = store
+      .load()
+      .orders.filter((o) => String(o.status) !== String(o.notifiedStatus || "new"))
+      .map((o) => ({
+        orderId: o.orderId,
+        status: o.status,
+        prevStatus: o.notifiedStatus || "new",
+        cancelReason: o.cancelReason || "",
+        changedBy: o.statusChangedBy || "",
+        name: o.name || "",
+        grandTotal: o.grandTotal,
+        tgUserId: o.tgUserId || "",
+      }));
+
+    return { changes };
+  },
+
+  markNotified({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      const order = data.orders.find((o) => o.orderId === body.orderId);
+      if (!order) throw new Error("Order not found");
+      order.notifiedStatus = String(body.status || order.status);
+      return { ok: true };
+    });
+  },
+
+  orderInfo({ params, store }) {
+    requireToken(params.token);
+
+    const order = store.load().orders.find((o) => o.orderId === params.orderId);
+    return { order: order || null };
+  },
+
+  setPayment({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      const order = data.orders.find((o) => o.orderId === body.orderId);
+      if (!order) throw new Error("Order not found");
+
+      // Повторный вебхук не должен откатывать уже полученную оплату.
+      if (order.paymentStatus === "paid" && body.paymentStatus !== "paid") {
+        return { ok: true, orderId: order.orderId, paymentStatus: order.paymentStatus };
+      }
+
+      const { token, action, orderId, ...payment } = body;
+      Object.assign(order, payment);
+      return { ok: true, orderId: order.orderId, paymentStatus: order.paymentStatus };
+    });
+  },
+
+  profile({ body, store }) {
+    requireToken(body.token);
+
+    const profiles = store.load().profiles || {};
+    return { profile: profiles[String(body.tgUserId)] || null };
+  },
+
+  saveProfile({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      data.profiles = data.profiles || {};
+      data.profiles[String(body.tgUserId)] = body.profile;
+      return { ok: true };
+    });
+  },
+
+  // Все заказы для админки, новые сверху.
+  adminOrders({ body, store }) {
+    requireToken(body.token);
+
+    const statuses = String(body.status || "")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean);
+    const from = String(body.from || "");
+    const to = String(body.to || "");
+
+    const orders = store
+      .load()
+      .orders.filter((o) => {
+        const day = String(o.createdAt || "").slice(0, 10);
+        if (statuses.length && !statuses.includes(String(o.status).toLowerCase())) {
+          return false;
+        }
+        if (from && day < from) return false;
+        if (to && day > to) return false;
+        return true;
+      })
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))
+      .slice(0, Number(body.limit) || 100);
+
+    return { orders };
+  },
+
+  setStatus({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      const order = data.orders.find((o) => o.orderId === body.orderId);
+      if (!order) return { error: "Order not found", code: "order_not_found" };
+
+      const current = String(order.status).toLowerCase();
+      if (current !== String(body.expectedStatus || "").toLowerCase()) {
+        return {
+          error: "Order status was changed in the meantime",
+          code: "status_conflict",
+          status: order.status,
+        };
+      }
+
+      order.status = String(body.status);
+      order.cancelReason = String(body.cancelReason || "");
+      order.statusChangedAt = new Date().toISOString();
+      order.statusChangedBy = String(body.changedBy || "");
+      return { ok: true, orderId: order.orderId, status: order.status };
+    });
+  },
+
+  // Создание и правка товара из админки; строка ищется по id.
+  saveProduct({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      const product = body.product || {};
+      const index = data.products.findIndex((p) => p.id === product.id);
+
+      if (body.isNew && index >= 0) {
+        return { error: "Product already exists", code: "product_exists" };
+      }
+      if (!body.isNew && index < 0) {
+        return { error: "Product not found", code: "product_not_found" };
+      }
+
+      if (index >= 0) data.products[index] = product;
+      else data.products.push(product);
+
+      return { ok: true, product };
+    });
+  },
+
+  cancelOrder({ body, store }) {
+    requireToken(body.token);
+
+    return store.update((data) => {
+      const order = data.orders.find((o) => o.orderId === body.orderId);
+      if (!order || !isOwner(order, body.tgUserId, body.phone)) {
+        throw new Error("Order not found");
+      }
+      if (String(order.status).toLowerCase() !== "new") {
+        throw new Error("Order can no longer be cancelled");
+      }
+      if (order.paymentStatus === "paid") {
+        throw new Error("Paid order can not be cancelled");
+      }
+
+      order.status = "canceled";
+      order.cancelReason = String(body.reason || "");
+      order.statusChangedAt = new Date().toISOString();
+      order.statusChangedBy = String(body.changedBy || "");
+      return { ok: true, orderId: order.orderId };
+    });
+  },
+};
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw) return {};
+  return JSON.parse(raw);
+}
+
+export function createMockGsServer({
+  storePath = path.join(ROOT, "mock", "data", "store.json"),
+  imagesDir = path.join(ROOT, "public", "images"),
+} = {}) {
+  const store = createFileStore({ storePath, imagesDir });
+
+  return http.createServer(async (req, res) => {
+    let result;
+
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+      const params = Object.fromEntries(url.searchParams.entries());
+      const body = req.method === "POST" ? await readBody(req) : {};
+      const actionName = params.action || body.action;
+      const action = actions[actionName];
+
+      result = action
+        ? await action({ params, body, store })
+        : { error: `Unknown action: ${actionName}`, code: "unknown_action" };
+    } catch (e) {
+      result = { error: String(e?.message || e) };
+    }
+
+    // Apps Script всегда отвечает 200, ошибка — только в поле error.
+    res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+    res.end(JSON.stringify(result));
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || "").href) {
+  const port = Number(process.env.MOCK_GS_PORT) || 8787;
+  createMockGsServer().listen(port, () => {
+    console.log(`Mock GS backend: http://localhost:${port}/exec`);
+    console.log(`GS_API_URL=http://localhost:${port}/exec GS_API_TOKEN=${MOCK_GS_TOKEN}`);
+  });
+}
@@ -0,0 +1,149 @@
+import fs from "node:fs";
+import path from "node:path";
+
+const IMAGE_EXT_RE = /\.(png|jpe?g|webp)$/i;
+const SKIP_IMAGES = new Set(["bg-farm"]);
+
+const CATEGORY_RULES = [
+  { re: /^sir |моцарелла/i, category: "Сыры", sellMode: "weight" },
+  {
+    re: /kolbas|sosisk|sardel|servelat|vetchin|shpikach|grydinka|rylet|rebrish|salo|buzenina|okorok|sheyka|vengersk|ctolichn|kurica|курочка/i,
+    category: "Мясная продукция",
+    sellMode: "weight",
+  },
+  {
+    re: /moloko|kefir|ryachenka|smetana|tvorog|slivki|maslo|yoyrt|yogyrt|milk|яйца/i,
+    category: "Молочная продукция",
+    sellMode: "piece",
+  },
+];
+
+function hashCode(value) {
+  let h = 0;
+  for (let i = 0; i < value.length; i += 1) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+function slugify(value) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9а-яё]+/gi, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function productFromImage(file, index) {
+  const base = file.replace(IMAGE_EXT_RE, "").replace(/_/g, " ").trim();
+  const sizeMatch = base.match(/\s+(\d+)\s*ml$/i);
+  const name = sizeMatch ? base.slice(0, sizeMatch.index).trim() : base;
+  const rule = CATEGORY_RULES.find((r) => r.re.test(base)) || {
+    category: "Домашняя кухня",
+    sellMode: "piece",
+  };
+  const isWeight = rule.sellMode === "weight";
+
+  return {
+    id: slugify(base),
+    category: rule.category,
+    name,
+    unit: isWeight ? "1 кг" : "шт",
+    price: isWeight
+      ? 600 + (hashCode(base) % 60) * 10
+      : 150 + (hashCode(base) % 30) * 10,
+    sort: (index + 1) * 10,
+    description: "",
+    image: `/images/${file}`,
+    sellMode: rule.sellMode,
+    minQty: isWeight ? 300 : 1,
+    stepQty: isWeight ? 50 : 1,
+    groupId: slugify(name),
+    variantName: sizeMatch ? `${sizeMatch[1]} мл` : "",
+    storageDays: isWeight ? 10 : 5,
+  };
+}
+
+// Примерные зоны доставки, чтобы в dev-режиме был виден выбор зоны.
+export function seedZones() {
+  return [
+    { id: "city", name: "Город", deliveryFee: 200, freeDeliveryFrom: 2000, minOrderSum: 0 },
+    { id: "suburbs", name: "Пригород", deliveryFee: 350, freeDeliveryFrom: 3500, minOrderSum: 1000 },
+    { id: "villages", name: "Дальние сёла", deliveryFee: 500, freeDeliveryFrom: 5000, minOrderSum: 2000 },
+  ];
+}
+
+// Примерные окна доставки: без них в настройках запись на время выключена.
+export function seedSlots() {
+  return {
+    windows: [
+      { id: "10-14", from: "10:00", to: "14:00", capacity: 10 },
+      { id: "14-18", from: "14:00", to: "18:00", capacity: 10 },
+      { id: "18-21", from: "18:00", to: "21:00", capacity: 8 },
+    ],
+  };
+}
+
+export function seedPromos() {
+  return [
+    { code: "WELCOME10", type: "percent", value: 10, maxUsesPerCustomer: 1 },
+    { code: "MINUS300", type: "fixed", value: 300, minSum: 1500, maxUses: 100 },
+    { code: "FREEDELIVERY", type: "free_delivery", value: 0, validTo: "2030-12-31" },
+  ];
+}
+
+export function seedProducts(imagesDir) {
+  const files = fs
+    .readdirSync(imagesDir)
+    .filter((file) => IMAGE_EXT_RE.test(file))
+    .filter((file) => !SKIP_IMAGES.has(file.replace(IMAGE_EXT_RE, "")))
+    .sort((a, b) => a.localeCompare(b, "ru"));
+
+  return files.map(productFromImage);
+}
+
+// Простое файловое хранилище: весь стор — один JSON, пишется целиком.
+export function createFileStore({ storePath, imagesDir }) {
+  function read() {
+    try {
+      return JSON.parse(fs.readFileSync(storePath, "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  function write(data) {
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+    fs.writeFileSync(storePath, JSON.stringify(data, null, 2));
+  }
+
+  function load() {
+    const data = read();
+    if (data && Array.isArray(data.products) && Array.isArray(data.orders)) {
+      return data;
+    }
+
+    const seeded = {
+      products: seedProducts(imagesDir),
+      orders: [],
+      settings: {
+        zones: seedZones(),
+        slots: seedSlots(),
+        sbpUrl: "https://qr.nspk.ru/AS1000000000000000000000000000000",
+      },
+      promos: seedPromos(),
+    };
+    write(seeded);
+    return seeded;
+  }
+
+  return {
+    load,
+    save: write,
+    update(fn) {
+      const data = load();
+      const result = fn(data);
+      write(data);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,104 @@
+// Vite-плагин для офлайн-разработки: поднимает mock GS бэкенд и отдаёт
+// /api/* теми же обработчиками, что работают на Vercel.
+import fs from "node:fs";
+import path from "node:path";
+import { createFakeBotApi } from "./fake-bot-api.js";
+import { createMockGsServer, MOCK_GS_TOKEN } from "./gs-server.js";
+
+async function readRawBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Минимальная совместимость с req/res из @vercel/node.
+function withVercelHelpers(req, res, rawBody) {
+  const url = new URL(req.url || "/", "http://localhost");
+  req.query = Object.fromEntries(url.searchParams.entries());
+
+  const contentType = String(req.headers["content-type"] || "");
+  req.body =
+    rawBody && contentType.includes("application/json")
+      ? JSON.parse(rawBody)
+      : rawBody;
+
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.send = (body) => {
+    res.end(typeof body === "string" ? body : JSON.stringify(body));
+    return res;
+  };
+  res.json = (body) => {
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.end(JSON.stringify(body));
+    return res;
+  };
+}
+
+export default function mockApiPlugin() {
+  return {
+    name: "farm-mock-api",
+    apply: "serve",
+
+    configureServer(server) {
+      const gs = createMockGsServer();
+
+      gs.listen(0, "127.0.0.1", () => {
+        const { port } = gs.address();
+        process.env.GS_API_URL = `http://127.0.0.1:${port}/exec`;
+        process.env.GS_API_TOKEN = MOCK_GS_TOKEN;
+        process.env.AUTH_SECRET ||= "dev-auth-secret";
+        process.env.ADMIN_TOKEN ||= "dev-admin-token";
+        server.config.logger.info(`  mock GS backend: ${process.env.GS_API_URL}`);
+      });
+
+      const fakeBot = createFakeBotApi();
+      const bot = fakeBot.server;
+
+      bot.listen(0, "127.0.0.1", () => {
+        const { port } = bot.address();
+        process.env.TG_API_BASE = `http://127.0.0.1:${port}`;
+        process.env.TG_BOT_TOKEN ||= "dev-bot-token";
+        process.env.TG_PAYMENT_PROVIDER_TOKEN ||= "fake-provider-token";
+        process.env.TG_WEBHOOK_SECRET ||= "dev-webhook-secret";
+        server.config.logger.info(`  fake Bot API:     ${process.env.TG_API_BASE}`);
+      });
+
+      // Обновления фейкового бота (оплаты) идут в наш же /api/telegram-webhook.
+      server.httpServer?.once("listening", () => {
+        const { port } = server.httpServer.address();
+        fakeBot.setWebhook(
+          `http://localhost:${port}/api/telegram-webhook`,
+          process.env.TG_WEBHOOK_SECRET || "dev-webhook-secret"
+        );
+      });
+
+      server.httpServer?.once("close", () => {
+        gs.close();
+        bot.close();
+      });
+
+      server.middlewares.use("/api", async (req, res, next) => {
+        const name = (req.url || "").split("?")[0].replace(/^\/+|\/+$/g, "");
+        const file = path.join(server.config.root, "api", `${name}.js`);
+
+        if (!name || name.startsWith("_") || !fs.existsSync(file)) {
+          next();
+          return;
+        }
+
+        try {
+          const rawBody = await readRawBody(req);
+          withVercelHelpers(req, res, rawBody);
+
+          const mod = await server.ssrLoadModule(`/api/${name}.js`);
+          await mod.default(req, res);
+        } catch (e) {
+          next(e);
+        }
+      });
+    },
+  };
+}
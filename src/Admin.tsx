@@ -0,0 +1,795 @@
+import React, { useEffect, useState } from "react";
+import AdminCatalog from "./AdminCatalog";
+import {
+  ADMIN_AUTH_REQUIRED_CODE,
+  ADMIN_FORBIDDEN_CODE,
+  fetchAdminOrders,
+  GS_ACTION_UNSUPPORTED_CODE,
+  setAdminOrderStatus,
+  STATUS_CONFLICT_CODE,
+} from "./api";
+import {
+  formatDate,
+  formatSlotDate,
+  humanPaymentStatus,
+  humanStatus,
+  money,
+} from "./format";
+import { getTelegramWebApp, getTgInitData } from "./telegram";
+import type { AdminAuth, AdminOrdersFilter, ApiError, Order } from "./types";
+
+type Toast = { type: "error" | "success" | "info"; text: string } | null;
+
+const ADMIN_TOKEN_KEY = "farm_admin_token_v1";
+const TG_AUTH_FAILED_CODE = "tg_auth_failed";
+
+const ACTIVE_STATUSES = "new,accepted,cooking,in_work,delivering";
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+  { value: ACTIVE_STATUSES, label: "Активные" },
+  { value: "new", label: "Новые" },
+  { value: "accepted", label: "Принятые" },
+  { value: "cooking,in_work", label: "В работе" },
+  { value: "delivering", label: "Доставляются" },
+  { value: "done,completed", label: "Выполненные" },
+  { value: "canceled,cancelled", label: "Отменённые" },
+  { value: "", label: "Все" },
+];
+
+// Те же переходы, что проверяет api/_lib/admin.js.
+const NEXT_STATUS: Record<string, { status: string; label: string }> = {
+  new: { status: "accepted", label: "Принять" },
+  accepted: { status: "cooking", label: "В работу" },
+  cooking: { status: "delivering", label: "Передать в доставку" },
+  in_work: { status: "delivering", label: "Передать в доставку" },
+  delivering: { status: "done", label: "Выполнен" },
+};
+
+const FINAL_STATUSES = ["done", "completed", "canceled", "cancelled"];
+
+function loadAdminToken(): string {
+  try {
+    return localStorage.getItem(ADMIN_TOKEN_KEY) || "";
+  } catch {
+    return "";
+  }
+}
+
+function saveAdminToken(token: string) {
+  try {
+    if (token) localStorage.setItem(ADMIN_TOKEN_KEY, token);
+    else localStorage.removeItem(ADMIN_TOKEN_KEY);
+  } catch {}
+}
+
+function isAuthError(err: ApiError) {
+  return (
+    err.code === ADMIN_AUTH_REQUIRED_CODE ||
+    err.code === ADMIN_FORBIDDEN_CODE ||
+    err.code === TG_AUTH_FAILED_CODE
+  );
+}
+
+function adminErrorText(err: ApiError) {
+  if (err.code === ADMIN_FORBIDDEN_CODE) return "Нет доступа к админке.";
+  if (err.code === ADMIN_AUTH_REQUIRED_CODE) return "Войдите, чтобы продолжить.";
+  if (err.code === STATUS_CONFLICT_CODE) {
+    return "Заказ уже изменил другой оператор. Список обновлён.";
+  }
+  if (err.code === "reason_required") return "Укажите причину отмены.";
+  if (err.code === GS_ACTION_UNSUPPORTED_CODE) {
+    return "Таблица не поддерживает это действие — обновите Apps Script.";
+  }
+  return err.error;
+}
+
+function telegramLink(order: Order) {
+  if (order.tg?.username) return `https://t.me/${order.tg.username}`;
+  if (order.tg?.id) return `tg://user?id=${order.tg.id}`;
+  return "";
+}
+
+export default function Admin() {
+  // Внутри Telegram входим по initData администратора, в браузере — по токену.
+  const initData = getTgInitData();
+  const [token, setToken] = useState(() => (initData ? "" : loadAdminToken()));
+  const [tokenInput, setTokenInput] = useState("");
+  const auth: AdminAuth = initData ? { initData } : { token };
+  const canLoad = !!initData || !!token;
+
+  const [filter, setFilter] = useState<AdminOrdersFilter>({
+    status: ACTIVE_STATUSES,
+    from: "",
+    to: "",
+  });
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [authError, setAuthError] = useState("");
+  const [openOrderId, setOpenOrderId] = useState("");
+  const [busyOrderId, setBusyOrderId] = useState("");
+  const [cancelingId, setCancelingId] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+  const [toast, setToast] = useState<Toast>(null);
+  const [section, setSection] = useState<"orders" | "catalog">("orders");
+
+  useEffect(() => {
+    const tg = getTelegramWebApp();
+    if (tg) {
+      try {
+        tg.ready();
+        tg.expand();
+      } catch {}
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = setTimeout(() => setToast(null), 4000);
+    return () => clearTimeout(t);
+  }, [toast]);
+
+  useEffect(() => {
+    if (canLoad && section === "orders") loadOrders();
+  }, [filter, token, section]);
+
+  // true — ошибка входа: показываем форму входа вместо раздела.
+  function handleAuthError(err: ApiError) {
+    if (!isAuthError(err)) return false;
+
+    setAuthError(adminErrorText(err));
+    if (token) {
+      setToken("");
+      saveAdminToken("");
+    }
+    return true;
+  }
+
+  async function loadOrders() {
+    setLoading(true);
+    const result = await fetchAdminOrders(auth, filter);
+    setLoading(false);
+
+    if (!result.ok) {
+      if (handleAuthError(result)) return;
+      setToast({ type: "error", text: adminErrorText(result) });
+      return;
+    }
+
+    setAuthError("");
+    setOrders(result.data);
+  }
+
+  function login() {
+    const value = tokenInput.trim();
+    if (!value) return;
+    saveAdminToken(value);
+    setToken(value);
+    setTokenInput("");
+  }
+
+  function logout() {
+    saveAdminToken("");
+    setToken("");
+    setOrders([]);
+  }
+
+  async function changeStatus(order: Order, status: string, reason = "") {
+    setBusyOrderId(order.orderId);
+    const result = await setAdminOrderStatus(auth, {
+      orderId: order.orderId,
+      status,
+      expectedStatus: String(order.status || "").toLowerCase(),
+      reason,
+    });
+    setBusyOrderId("");
+
+    if (!result.ok) {
+      if (handleAuthError(result)) return;
+      setToast({ type: "error", text: adminErrorText(result) });
+      if (result.code === STATUS_CONFLICT_CODE) loadOrders();
+      return;
+    }
+
+    setCancelingId("");
+    setCancelReason("");
+    setOrders((prev) =>
+      prev.map((o) =>
+        o.orderId === order.orderId
+          ? { ...o, status: result.data.status, cancelReason: reason || o.cancelReason }
+          : o
+      )
+    );
+    setToast({
+      type: "success",
+      text: `Заказ #${order.orderId}: ${humanStatus(result.data.status)}.`,
+    });
+  }
+
+  function renderLogin() {
+    return (
+      <div style={styles.panel}>
+        <div style={styles.h2}>Вход для операторов</div>
+        {authError && <div style={styles.errorBox}>{authError}</div>}
+        {initData ? (
+          <div style={styles.muted}>
+            Ваш Telegram-аккаунт не добавлен в список администраторов магазина.
+          </div>
+        ) : (
+          <>
+            <label style={styles.label}>Токен администратора</label>
+            <input
+              style={styles.input}
+              type="password"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") login();
+              }}
+              autoComplete="current-password"
+            />
+            <button style={styles.primaryBtn} onClick={login}>
+              Войти
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  function renderOrderDetails(o: Order) {
+    const tgLink = telegramLink(o);
+
+    return (
+      <div style={styles.details}>
+        <div style={styles.detailRow}>
+          <b>Покупатель:</b> {o.name || "—"}
+        </div>
+        {o.phone && (
+          <div style={styles.detailRow}>
+            <b>Телефон:</b> <a href={`tel:${o.phone}`}>{o.phone}</a>
+          </div>
+        )}
+        {tgLink && (
+          <div style={styles.detailRow}>
+            <b>Telegram:</b>{" "}
+            <a href={tgLink} target="_blank" rel="noreferrer">
+              {o.tg?.username ? `@${o.tg.username}` : `id ${o.tg?.id}`}
+            </a>
+          </div>
+        )}
+        {o.address && (
+          <div style={styles.detailRow}>
+            <b>Адрес:</b> {o.address}
+          </div>
+        )}
+        {o.zoneName && (
+          <div style={styles.detailRow}>
+            <b>Зона:</b> {o.zoneName}
+          </div>
+        )}
+        {o.comment && (
+          <div style={styles.detailRow}>
+            <b>Комментарий:</b> {o.comment}
+          </div>
+        )}
+        <div style={styles.detailRow}>
+          <b>Оплата:</b> {humanPaymentStatus(o)}
+        </div>
+        {o.promoCode && (
+          <div style={styles.detailRow}>
+            <b>Промокод:</b> {o.promoCode}
+            {o.discount ? ` (−${money(o.discount)} ₽)` : ""}
+          </div>
+        )}
+
+        <div style={styles.items}>
+          {o.items.map((it, idx) => (
+            <div key={`${o.orderId}_${idx}`}>
+              • {it.name} × {it.qty}
+              {it.unit ? ` ${it.unit}` : ""} — {money(it.sum)} ₽
+            </div>
+          ))}
+          <div>Доставка — {money(o.delivery)} ₽</div>
+        </div>
+      </div>
+    );
+  }
+
+  function renderActions(o: Order) {
+    const status = String(o.status || "").toLowerCase();
+    if (FINAL_STATUSES.includes(status)) return null;
+
+    const next = NEXT_STATUS[status];
+    const busy = busyOrderId === o.orderId;
+
+    if (cancelingId === o.orderId) {
+      return (
+        <div>
+          <textarea
+            style={styles.textarea}
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Причина отмены — её увидит покупатель"
+          />
+          {o.paymentStatus === "paid" && (
+            <div style={styles.muted}>
+              Заказ оплачен онлайн — деньги нужно вернуть вручную.
+            </div>
+          )}
+          <div style={styles.actions}>
+            <button
+              style={{ ...styles.dangerBtn, ...(busy ? styles.disabled : {}) }}
+              disabled={busy || !cancelReason.trim()}
+              onClick={() => changeStatus(o, "canceled", cancelReason.trim())}
+            >
+              Отменить заказ
+            </button>
+            <button style={styles.secondaryBtn} onClick={() => setCancelingId("")}>
+              Назад
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div style={styles.actions}>
+        {next && (
+          <button
+            style={{ ...styles.nextBtn, ...(busy ? styles.disabled : {}) }}
+            disabled={busy}
+            onClick={() => changeStatus(o, next.status)}
+          >
+            {busy ? "Сохраняем..." : `${next.label} →`}
+          </button>
+        )}
+        <button
+          style={styles.secondaryBtn}
+          disabled={busy}
+          onClick={() => {
+            setCancelingId(o.orderId);
+            setCancelReason("");
+          }}
+        >
+          Отменить
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={styles.page}>
+      {toast && (
+        <div
+          style={{
+            ...styles.toast,
+            ...(toast.type === "error" ? styles.toastError : {}),
+            ...(toast.type === "success" ? styles.toastSuccess : {}),
+          }}
+          onClick={() => setToast(null)}
+        >
+          {toast.text}
+        </div>
+      )}
+
+      <div style={styles.container}>
+        <div style={styles.header}>
+          <div style={styles.title}>
+            {section === "orders" ? "Заказы" : "Каталог"}
+          </div>
+          {token && (
+            <button style={styles.linkBtn} onClick={logout}>
+              Выйти
+            </button>
+          )}
+        </div>
+
+        {canLoad && !authError && (
+          <div style={styles.chipsRow}>
+            {(
+              [
+                ["orders", "Заказы"],
+                ["catalog", "Каталог"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                style={{ ...styles.tab, ...(section === value ? styles.chipActive : {}) }}
+                onClick={() => setSection(value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!canLoad || authError ? (
+          renderLogin()
+        ) : section === "catalog" ? (
+          <AdminCatalog auth={auth} onAuthError={handleAuthError} notify={setToast} />
+        ) : (
+          <>
+            <div style={styles.chipsRow}>
+              {STATUS_FILTERS.map((f) => (
+                <button
+                  key={f.label}
+                  style={{
+                    ...styles.chip,
+                    ...(filter.status === f.value ? styles.chipActive : {}),
+                  }}
+                  onClick={() => setFilter((prev) => ({ ...prev, status: f.value }))}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+
+            <div style={styles.dateRow}>
+              <label style={styles.dateLabel}>
+                с
+                <input
+                  style={styles.input}
+                  type="date"
+                  value={filter.from}
+                  onChange={(e) => setFilter((prev) => ({ ...prev, from: e.target.value }))}
+                />
+              </label>
+              <label style={styles.dateLabel}>
+                по
+                <input
+                  style={styles.input}
+                  type="date"
+                  value={filter.to}
+                  onChange={(e) => setFilter((prev) => ({ ...prev, to: e.target.value }))}
+                />
+              </label>
+              <button
+                style={{ ...styles.secondaryBtn, ...(loading ? styles.disabled : {}) }}
+                disabled={loading}
+                onClick={() => loadOrders()}
+              >
+                {loading ? "Загружаем..." : "Обновить"}
+              </button>
+            </div>
+
+            {!loading && orders.length === 0 && (
+              <div style={styles.panel}>Заказов нет</div>
+            )}
+
+            <div style={styles.list}>
+              {orders.map((o) => {
+                const open = openOrderId === o.orderId;
+
+                return (
+                  <div key={o.orderId} style={styles.card}>
+                    <div
+                      style={styles.cardTop}
+                      onClick={() => setOpenOrderId(open ? "" : o.orderId)}
+                    >
+                      <div>
+                        <div style={styles.orderId}>#{o.orderId}</div>
+                        <div style={styles.muted}>
+                          {formatDate(o.createdAt)} · {o.name || "без имени"} ·{" "}
+                          {money(o.grandTotal)} ₽
+                        </div>
+                        {o.deliveryDate && (
+                          <div style={styles.muted}>
+                            Доставка: {formatSlotDate(o.deliveryDate)}
+                            {o.deliveryWindow ? `, ${o.deliveryWindow}` : ""}
+                          </div>
+                        )}
+                      </div>
+                      <div style={styles.status}>{humanStatus(o.status)}</div>
+                    </div>
+
+                    {o.cancelReason && (
+                      <div style={styles.cancelReason}>
+                        Причина отмены: {o.cancelReason}
+                      </div>
+                    )}
+
+                    {open && renderOrderDetails(o)}
+                    {renderActions(o)}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    background: "#f7f4ef",
+    color: "#2d251d",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Arial, sans-serif',
+    padding: 12,
+  },
+
+  container: {
+    maxWidth: 820,
+    margin: "0 auto",
+  },
+
+  header: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+
+  title: {
+    fontSize: 28,
+    fontWeight: 900,
+  },
+
+  h2: {
+    fontSize: 22,
+    fontWeight: 900,
+    marginBottom: 10,
+  },
+
+  panel: {
+    background: "#fff",
+    border: "1px solid #e7ddd2",
+    borderRadius: 18,
+    padding: 16,
+  },
+
+  muted: {
+    color: "#6f665d",
+    fontSize: 14,
+    marginTop: 4,
+  },
+
+  errorBox: {
+    background: "#fdeaea",
+    border: "1px solid #f0c0c0",
+    color: "#8b1f1f",
+    borderRadius: 12,
+    padding: "10px 12px",
+    marginBottom: 10,
+  },
+
+  label: {
+    display: "block",
+    fontSize: 14,
+    fontWeight: 700,
+    marginBottom: 6,
+  },
+
+  input: {
+    width: "100%",
+    boxSizing: "border-box",
+    border: "1px solid #e7ddd2",
+    borderRadius: 12,
+    padding: "10px 12px",
+    fontSize: 16,
+    background: "#fff",
+  },
+
+  textarea: {
+    width: "100%",
+    minHeight: 72,
+    boxSizing: "border-box",
+    border: "1px solid #e7ddd2",
+    borderRadius: 12,
+    padding: "10px 12px",
+    fontSize: 16,
+    marginTop: 10,
+    resize: "vertical",
+  },
+
+  chipsRow: {
+    display: "flex",
+    gap: 8,
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+
+  chip: {
+    border: "1px solid #e7ddd2",
+    background: "#efe5d8",
+    color: "#2d251d",
+    borderRadius: 999,
+    padding: "8px 12px",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+
+  chipActive: {
+    background: "#8a5a36",
+    color: "#fff",
+    borderColor: "#8a5a36",
+  },
+
+  tab: {
+    border: "1px solid #e7ddd2",
+    background: "#fff",
+    color: "#2d251d",
+    borderRadius: 12,
+    padding: "10px 14px",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+
+  dateRow: {
+    display: "grid",
+    gridTemplateColumns: "1fr 1fr auto",
+    gap: 8,
+    alignItems: "end",
+    marginBottom: 12,
+  },
+
+  dateLabel: {
+    display: "grid",
+    gap: 4,
+    fontSize: 13,
+    color: "#6f665d",
+  },
+
+  list: {
+    display: "grid",
+    gap: 10,
+  },
+
+  card: {
+    background: "#fffdfb",
+    border: "1px solid #e7ddd2",
+    borderRadius: 16,
+    padding: 12,
+  },
+
+  cardTop: {
+    display: "grid",
+    gridTemplateColumns: "1fr auto",
+    gap: 10,
+    alignItems: "start",
+    cursor: "pointer",
+  },
+
+  orderId: {
+    fontWeight: 900,
+    fontSize: 16,
+    wordBreak: "break-word",
+  },
+
+  status: {
+    background: "#f3e7da",
+    color: "#8a5a36",
+    borderRadius: 999,
+    padding: "6px 10px",
+    fontWeight: 800,
+    fontSize: 13,
+    whiteSpace: "nowrap",
+  },
+
+  details: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTop: "1px solid #eee1d2",
+    display: "grid",
+    gap: 4,
+  },
+
+  detailRow: {
+    lineHeight: 1.4,
+  },
+
+  items: {
+    marginTop: 6,
+    display: "grid",
+    gap: 2,
+    color: "#3d342b",
+  },
+
+  cancelReason: {
+    marginTop: 10,
+    background: "#fff5f5",
+    color: "#8b1f1f",
+    border: "1px solid #f3cdcd",
+    borderRadius: 12,
+    padding: "8px 10px",
+  },
+
+  actions: {
+    display: "flex",
+    gap: 8,
+    flexWrap: "wrap",
+    marginTop: 10,
+  },
+
+  primaryBtn: {
+    marginTop: 12,
+    width: "100%",
+    border: "none",
+    background: "#8a5a36",
+    color: "#fff",
+    borderRadius: 12,
+    padding: "12px 16px",
+    cursor: "pointer",
+    fontWeight: 800,
+    fontSize: 16,
+  },
+
+  nextBtn: {
+    flex: 1,
+    border: "none",
+    background: "#8a5a36",
+    color: "#fff",
+    borderRadius: 12,
+    padding: "12px 14px",
+    cursor: "pointer",
+    fontWeight: 800,
+    fontSize: 15,
+  },
+
+  secondaryBtn: {
+    border: "1px solid #e7ddd2",
+    background: "#fff",
+    color: "#2d251d",
+    borderRadius: 12,
+    padding: "12px 14px",
+    cursor: "pointer",
+    fontWeight: 800,
+  },
+
+  dangerBtn: {
+    flex: 1,
+    border: "none",
+    background: "#c62828",
+    color: "#fff",
+    borderRadius: 12,
+    padding: "12px 14px",
+    cursor: "pointer",
+    fontWeight: 800,
+  },
+
+  disabled: {
+    opacity: 0.65,
+    cursor: "not-allowed",
+  },
+
+  linkBtn: {
+    border: "none",
+    background: "transparent",
+    color: "#8a5a36",
+    cursor: "pointer",
+    fontWeight: 700,
+    textDecoration: "underline",
+    padding: 0,
+  },
+
+  toast: {
+    position: "fixed",
+    top: 12,
+    right: 12,
+    left: 12,
+    zIndex: 3000,
+    maxWidth: 420,
+    marginLeft: "auto",
+    padding: "12px 14px",
+    borderRadius: 14,
+    border: "1px solid #e7ddd2",
+    background: "#fff",
+    boxShadow: "0 10px 24px rgba(0,0,0,0.12)",
+    fontWeight: 700,
+  },
+
+  toastError: {
+    background: "#fdeaea",
+    borderColor: "#f0c0c0",
+    color: "#8b1f1f",
+  },
+
+  toastSuccess: {
+    background: "#e8f5e9",
+    borderColor: "#bfe1c1",
+    color: "#1f5e24",
+  },
+};
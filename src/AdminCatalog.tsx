@@ -0,0 +1,891 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  fetchAdminProducts,
+  fetchImageList,
+  INVALID_PRODUCT_CODE,
+  saveAdminProduct,
+} from "./api";
+import {
+  getFlavorKey,
+  getFlavorLabel,
+  getGroupKey,
+  getGroupTitle,
+  getMinQty,
+  getProductDisplayName,
+  getProductSubtitle,
+  getQtyLabel,
+  getSellMode,
+  getStepQty,
+  getVariantKey,
+  getVariantLabel,
+  parseWeightPriceBase,
+  validateProduct,
+} from "./catalog";
+import { money } from "./format";
+import type { AdminAuth, ApiError, Product, ProductErrors } from "./types";
+
+type Notify = (toast: { type: "error" | "success" | "info"; text: string }) => void;
+
+// Форма хранит всё строками, как в ячейках таблицы.
+type ProductDraft = Record<
+  | "id"
+  | "category"
+  | "name"
+  | "unit"
+  | "price"
+  | "sort"
+  | "description"
+  | "image"
+  | "sellMode"
+  | "minQty"
+  | "stepQty"
+  | "groupId"
+  | "variantName"
+  | "shortName"
+  | "badge"
+  | "storageType"
+  | "storageDays"
+  | "composition"
+  | "subtitle"
+  | "flavor"
+  | "stockQty",
+  string
+> & { inStock: boolean };
+
+type Editing = { draft: ProductDraft; isNew: boolean } | null;
+
+const WEIGHT_UNITS = ["1 кг", "500 г", "100 г"];
+
+function toDraft(p: Partial<Product>): ProductDraft {
+  const str = (v: unknown) => (v === undefined || v === null ? "" : String(v));
+  return {
+    id: str(p.id),
+    category: str(p.category),
+    name: str(p.name),
+    unit: str(p.unit),
+    price: str(p.price),
+    sort: str(p.sort),
+    description: str(p.description),
+    image: str(p.image),
+    sellMode: str(p.sellMode),
+    minQty: str(p.minQty),
+    stepQty: str(p.stepQty),
+    groupId: str(p.groupId),
+    variantName: str(p.variantName),
+    shortName: str(p.shortName),
+    badge: str(p.badge),
+    storageType: str(p.storageType),
+    storageDays: str(p.storageDays),
+    composition: str(p.composition),
+    subtitle: str(p.subtitle),
+    flavor: str(p.flavor),
+    stockQty: str(p.stockQty),
+    inStock: p.inStock !== false,
+  };
+}
+
+function toOptionalNumber(value: string) {
+  const s = value.trim().replace(",", ".");
+  return s === "" ? undefined : Number(s);
+}
+
+function fromDraft(d: ProductDraft): Product {
+  const text = (v: string) => v.trim() || undefined;
+  return {
+    id: d.id.trim(),
+    category: d.category.trim(),
+    name: d.name.trim(),
+    unit: d.unit.trim(),
+    price: toOptionalNumber(d.price) ?? NaN,
+    sort: toOptionalNumber(d.sort) ?? 0,
+    description: text(d.description),
+    image: text(d.image),
+    sellMode: d.sellMode,
+    minQty: toOptionalNumber(d.minQty),
+    stepQty: toOptionalNumber(d.stepQty),
+    groupId: text(d.groupId),
+    variantName: text(d.variantName),
+    shortName: text(d.shortName),
+    badge: text(d.badge),
+    storageType: text(d.storageType),
+    storageDays: text(d.storageDays),
+    composition: text(d.composition),
+    subtitle: text(d.subtitle),
+    flavor: text(d.flavor),
+    inStock: d.inStock,
+    stockQty: toOptionalNumber(d.stockQty),
+  };
+}
+
+// Новый вариант наследует у группы всё, кроме своих отличий.
+function variantDraft(base: Product): ProductDraft {
+  return toDraft({
+    category: base.category,
+    name: base.name,
+    unit: base.unit,
+    sellMode: base.sellMode,
+    minQty: base.minQty,
+    stepQty: base.stepQty,
+    groupId: getGroupKey(base),
+    image: base.image,
+    storageType: base.storageType,
+    storageDays: base.storageDays,
+    sort: (Number(base.sort) || 0) + 1,
+  });
+}
+
+type Props = {
+  auth: AdminAuth;
+  onAuthError: (err: ApiError) => boolean;
+  notify: Notify;
+};
+
+export default function AdminCatalog({ auth, onAuthError, notify }: Props) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [images, setImages] = useState<string[]>([]);
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<Editing>(null);
+  const [serverErrors, setServerErrors] = useState<ProductErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [imageQuery, setImageQuery] = useState("");
+  const [showImages, setShowImages] = useState(false);
+
+  useEffect(() => {
+    loadProducts();
+    fetchImageList().then((result) => {
+      if (result.ok) setImages(result.data);
+    });
+  }, []);
+
+  async function loadProducts() {
+    setLoading(true);
+    const result = await fetchAdminProducts(auth);
+    setLoading(false);
+
+    if (!result.ok) {
+      if (!onAuthError(result)) notify({ type: "error", text: result.error });
+      return;
+    }
+    setProducts(result.data);
+  }
+
+  const groups = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const map = new Map<string, Product[]>();
+
+    products.forEach((p) => {
+      const key = getGroupKey(p);
+      map.set(key, [...(map.get(key) || []), p]);
+    });
+
+    return Array.from(map.entries())
+      .map(([groupKey, items]) => ({
+        groupKey,
+        items: [...items].sort((a, b) => (Number(a.sort) || 0) - (Number(b.sort) || 0)),
+      }))
+      .filter(
+        ({ groupKey, items }) =>
+          !q ||
+          groupKey.toLowerCase().includes(q) ||
+          items.some((p) => getProductDisplayName(p).toLowerCase().includes(q))
+      )
+      .sort((a, b) => (Number(a.items[0].sort) || 0) - (Number(b.items[0].sort) || 0));
+  }, [products, query]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map((p) => p.category).filter(Boolean))),
+    [products]
+  );
+
+  const draftProduct = editing ? fromDraft(editing.draft) : null;
+
+  const errors: ProductErrors =
+    editing && draftProduct
+      ? { ...serverErrors, ...validateProduct(draftProduct, products, { isNew: editing.isNew }) }
+      : {};
+
+  function startEdit(draft: ProductDraft, isNew: boolean) {
+    setEditing({ draft, isNew });
+    setServerErrors({});
+    setShowImages(false);
+    setImageQuery("");
+  }
+
+  function update(field: keyof ProductDraft, value: string | boolean) {
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, [field]: value } } : prev));
+    setServerErrors((prev) => {
+      const next = { ...prev };
+      delete next[field as keyof ProductErrors];
+      delete next.group;
+      return next;
+    });
+  }
+
+  async function save() {
+    if (!editing || !draftProduct) return;
+    if (Object.keys(errors).length) {
+      notify({ type: "error", text: "Исправьте ошибки в карточке товара." });
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveAdminProduct(auth, draftProduct, editing.isNew);
+    setSaving(false);
+
+    if (!result.ok) {
+      if (onAuthError(result)) return;
+      if (result.code === INVALID_PRODUCT_CODE && result.errors) {
+        setServerErrors(result.errors);
+      }
+      notify({ type: "error", text: `Не удалось сохранить: ${result.error}` });
+      return;
+    }
+
+    const saved = result.data;
+    setProducts((prev) =>
+      editing.isNew ? [...prev, saved] : prev.map((p) => (p.id === saved.id ? saved : p))
+    );
+    setEditing(null);
+    notify({
+      type: "success",
+      text: "Товар сохранён. Покупатели увидят изменения в течение минуты.",
+    });
+  }
+
+  function renderInput(
+    label: string,
+    field: keyof ProductDraft & keyof ProductErrors,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) {
+    if (!editing) return null;
+    const error = errors[field];
+
+    return (
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>{label}</span>
+        <input
+          style={{ ...styles.input, ...(error ? styles.inputError : {}) }}
+          value={String(editing.draft[field])}
+          onChange={(e) => update(field, e.target.value)}
+          {...props}
+        />
+        {error && <span style={styles.fieldError}>{error}</span>}
+      </label>
+    );
+  }
+
+  function renderImagePicker() {
+    if (!editing) return null;
+    const q = imageQuery.trim().toLowerCase();
+    const list = images.filter((file) => !q || file.toLowerCase().includes(q));
+
+    return (
+      <div style={styles.field}>
+        <span style={styles.fieldLabel}>Фото</span>
+        <div style={styles.imageRow}>
+          {editing.draft.image ? (
+            <img src={editing.draft.image} alt="" style={styles.imageThumb} />
+          ) : (
+            <div style={styles.imagePlaceholder}>Нет фото</div>
+          )}
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={styles.muted}>{editing.draft.image || "не выбрано"}</div>
+            <div style={styles.actions}>
+              <button style={styles.smallBtn} onClick={() => setShowImages((v) => !v)}>
+                {showImages ? "Скрыть" : "Выбрать из /images"}
+              </button>
+              {editing.draft.image && (
+                <button style={styles.smallBtn} onClick={() => update("image", "")}>
+                  Убрать
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+        {errors.image && <span style={styles.fieldError}>{errors.image}</span>}
+
+        {showImages && (
+          <>
+            <input
+              style={{ ...styles.input, marginTop: 8 }}
+              value={imageQuery}
+              onChange={(e) => setImageQuery(e.target.value)}
+              placeholder="Поиск по имени файла"
+            />
+            <div style={styles.imageGrid}>
+              {list.map((file) => {
+                const src = `/images/${file}`;
+                return (
+                  <button
+                    key={file}
+                    style={{
+                      ...styles.imageOption,
+                      ...(editing.draft.image === src ? styles.imageOptionActive : {}),
+                    }}
+                    title={file}
+                    onClick={() => {
+                      update("image", src);
+                      setShowImages(false);
+                    }}
+                  >
+                    <img src={src} alt={file} style={styles.imageOptionImg} loading="lazy" />
+                  </button>
+                );
+              })}
+              {list.length === 0 && <div style={styles.muted}>Ничего не найдено</div>}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // Карточка так, как её увидит покупатель: группа из сохранённых товаров,
+  // где редактируемый заменён черновиком и выбран.
+  function renderPreview(draft: Product) {
+    const group = [
+      ...products.filter(
+        (p) => p.id !== draft.id && getGroupKey(p) === getGroupKey(draft)
+      ),
+      draft,
+    ].sort((a, b) => (Number(a.sort) || 0) - (Number(b.sort) || 0));
+
+    const groupTitle = getGroupTitle(group);
+    const subtitle = getProductSubtitle(draft, groupTitle);
+    const variantKeys = Array.from(new Set(group.map(getVariantKey)));
+    const flavorItems = group.filter(
+      (p) => getVariantKey(p) === getVariantKey(draft) && getFlavorKey(p)
+    );
+    const weight = getSellMode(draft) === "weight";
+    const base = weight ? parseWeightPriceBase(draft.unit) : null;
+
+    return (
+      <div style={styles.previewCard}>
+        {draft.image ? (
+          <img src={draft.image} alt="" style={styles.previewImg} />
+        ) : (
+          <div style={styles.imagePlaceholder}>Нет фото</div>
+        )}
+        <div style={{ padding: 12 }}>
+          <div style={styles.previewTitle}>{groupTitle || draft.name || "Без названия"}</div>
+          {draft.variantName && <div style={styles.muted}>{draft.variantName}</div>}
+          {draft.flavor && <div style={styles.muted}>Вкус: {draft.flavor}</div>}
+          {subtitle && <div style={styles.muted}>{subtitle}</div>}
+
+          <div style={styles.previewPrice}>
+            {Number.isFinite(draft.price) ? `${money(draft.price)} ₽` : "— ₽"}
+            {draft.unit ? <span style={styles.muted}> / {draft.unit}</span> : null}
+          </div>
+
+          {variantKeys.length > 1 && (
+            <div style={styles.chipsRow}>
+              {variantKeys.map((key) => {
+                const item = group.find((p) => getVariantKey(p) === key)!;
+                return (
+                  <span
+                    key={key}
+                    style={{
+                      ...styles.chip,
+                      ...(key === getVariantKey(draft) ? styles.chipActive : {}),
+                    }}
+                  >
+                    {getVariantLabel(item)}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
+          {flavorItems.length > 0 && (
+            <div style={styles.chipsRow}>
+              {flavorItems.map((item) => (
+                <span
+                  key={item.id}
+                  style={{
+                    ...styles.chip,
+                    ...(item === draft ? styles.chipActive : {}),
+                  }}
+                >
+                  {getFlavorLabel(item)}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {weight && (
+            <div style={styles.muted}>
+              От {getQtyLabel(draft, getMinQty(draft))}, шаг {getStepQty(draft)} г
+              {base
+                ? ` · ${getQtyLabel(draft, getMinQty(draft))} = ${money(
+                    (getMinQty(draft) / base) * (draft.price || 0)
+                  )} ₽`
+                : ""}
+            </div>
+          )}
+          {!weight && (
+            <div style={styles.muted}>
+              От {getMinQty(draft)} шт, шаг {getStepQty(draft)} шт
+            </div>
+          )}
+          {!draft.inStock && <div style={styles.fieldError}>Нет в наличии</div>}
+        </div>
+      </div>
+    );
+  }
+
+  function renderEditor() {
+    if (!editing || !draftProduct) return null;
+    const { draft, isNew } = editing;
+    const weight = draft.sellMode === "weight";
+
+    return (
+      <div style={styles.panel}>
+        <div style={styles.h2}>{isNew ? "Новый товар" : `Товар ${draft.id}`}</div>
+
+        <div style={styles.editorGrid}>
+          <div>
+            {renderInput("id (латиница, без пробелов)", "id", { disabled: !isNew })}
+            {renderInput("Название", "name")}
+            {renderInput("Категория", "category", { list: "admin-categories" })}
+            <datalist id="admin-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+
+            <div style={styles.sectionTitle}>Группа и варианты</div>
+            {renderInput("groupId — общая карточка для вариантов", "groupId", {
+              list: "admin-groups",
+              placeholder: "пусто — отдельная карточка",
+            })}
+            <datalist id="admin-groups">
+              {groups.map((g) => (
+                <option key={g.groupKey} value={g.groupKey} />
+              ))}
+            </datalist>
+            {renderInput("Вариант (variantName)", "variantName", {
+              placeholder: "например «500 г» или «Копчёная»",
+            })}
+            {renderInput("Вкус (flavor)", "flavor")}
+            {renderInput("Короткая подпись (shortName)", "shortName")}
+            {errors.group && <div style={styles.errorBox}>{errors.group}</div>}
+
+            <div style={styles.sectionTitle}>Продажа</div>
+            <div style={styles.chipsRow}>
+              {[
+                { value: "weight", label: "На вес" },
+                { value: "piece", label: "Поштучно" },
+              ].map((m) => (
+                <button
+                  key={m.value}
+                  style={{
+                    ...styles.chip,
+                    ...(draft.sellMode === m.value ? styles.chipActive : {}),
+                  }}
+                  onClick={() => update("sellMode", m.value)}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            {errors.sellMode && <div style={styles.fieldError}>{errors.sellMode}</div>}
+
+            {renderInput(weight ? "Цена за (unit)" : "Единица (unit)", "unit", {
+              placeholder: weight ? "1 кг" : "шт",
+            })}
+            {weight && (
+              <div style={styles.chipsRow}>
+                {WEIGHT_UNITS.map((u) => (
+                  <button key={u} style={styles.smallBtn} onClick={() => update("unit", u)}>
+                    {u}
+                  </button>
+                ))}
+              </div>
+            )}
+            {renderInput("Цена, ₽", "price", { inputMode: "decimal" })}
+            {renderInput(weight ? "Минимум, г" : "Минимум, шт", "minQty", {
+              inputMode: "numeric",
+              placeholder: weight ? "300" : "1",
+            })}
+            {renderInput(weight ? "Шаг, г" : "Шаг, шт", "stepQty", {
+              inputMode: "numeric",
+              placeholder: weight ? "50" : "1",
+            })}
+            {renderInput(weight ? "Остаток, г" : "Остаток, шт", "stockQty", {
+              inputMode: "numeric",
+              placeholder: "пусто — не ведётся",
+            })}
+            <label style={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={draft.inStock}
+                onChange={(e) => update("inStock", e.target.checked)}
+              />
+              В наличии
+            </label>
+            {renderInput("Порядок (sort)", "sort", { inputMode: "numeric" })}
+
+            <div style={styles.sectionTitle}>Описание</div>
+            {renderImagePicker()}
+            {renderInput("Бейдж", "badge", { placeholder: "Хит продаж" })}
+            {renderInput("Подзаголовок", "subtitle")}
+            {renderInput("Описание", "description")}
+            {renderInput("Состав", "composition")}
+            {renderInput("Тип хранения", "storageType", { placeholder: "Охлаждённый" })}
+            {renderInput("Срок хранения, дней", "storageDays")}
+          </div>
+
+          <div>
+            <div style={styles.sectionTitle}>Так увидит покупатель</div>
+            {renderPreview(draftProduct)}
+          </div>
+        </div>
+
+        <div style={styles.actions}>
+          <button
+            style={{ ...styles.primaryBtn, ...(saving ? styles.disabled : {}) }}
+            disabled={saving}
+            onClick={save}
+          >
+            {saving ? "Сохраняем..." : "Сохранить"}
+          </button>
+          <button style={styles.secondaryBtn} onClick={() => setEditing(null)}>
+            Отмена
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (editing) return renderEditor();
+
+  return (
+    <>
+      <div style={styles.toolbar}>
+        <input
+          style={styles.input}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Поиск по названию или groupId"
+        />
+        <button
+          style={styles.primaryBtn}
+          onClick={() => startEdit(toDraft({ sellMode: "piece", unit: "шт" }), true)}
+        >
+          + Товар
+        </button>
+      </div>
+
+      {loading && <div style={styles.muted}>Загружаем каталог…</div>}
+
+      <div style={styles.list}>
+        {groups.map(({ groupKey, items }) => (
+          <div key={groupKey} style={styles.card}>
+            <div style={styles.groupHeader}>
+              <div>
+                <div style={styles.groupTitle}>{getGroupTitle(items)}</div>
+                <div style={styles.muted}>
+                  groupId: {groupKey} · {items[0].category}
+                </div>
+              </div>
+              <button
+                style={styles.smallBtn}
+                onClick={() => startEdit(variantDraft(items[0]), true)}
+              >
+                + вариант
+              </button>
+            </div>
+
+            {items.map((p) => (
+              <div key={p.id} style={styles.productRow}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 700 }}>{getProductDisplayName(p)}</div>
+                  <div style={styles.muted}>
+                    {money(p.price)} ₽ / {p.unit} ·{" "}
+                    {getSellMode(p) === "weight" ? "на вес" : "поштучно"}
+                    {p.inStock === false ? " · нет в наличии" : ""}
+                  </div>
+                </div>
+                <button style={styles.smallBtn} onClick={() => startEdit(toDraft(p), false)}>
+                  Изменить
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    background: "#fff",
+    border: "1px solid #e7ddd2",
+    borderRadius: 18,
+    padding: 16,
+  },
+
+  h2: {
+    fontSize: 22,
+    fontWeight: 900,
+    marginBottom: 10,
+  },
+
+  sectionTitle: {
+    fontWeight: 900,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+
+  editorGrid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))",
+    gap: 16,
+    alignItems: "start",
+  },
+
+  field: {
+    display: "grid",
+    gap: 4,
+    marginBottom: 10,
+  },
+
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: 700,
+    color: "#6f665d",
+  },
+
+  fieldError: {
+    color: "#c62828",
+    fontSize: 13,
+  },
+
+  input: {
+    width: "100%",
+    boxSizing: "border-box",
+    border: "1px solid #e7ddd2",
+    borderRadius: 12,
+    padding: "10px 12px",
+    fontSize: 16,
+    background: "#fff",
+  },
+
+  inputError: {
+    borderColor: "#c62828",
+  },
+
+  checkbox: {
+    display: "flex",
+    gap: 8,
+    alignItems: "center",
+    fontWeight: 700,
+    marginBottom: 10,
+  },
+
+  errorBox: {
+    background: "#fdeaea",
+    border: "1px solid #f0c0c0",
+    color: "#8b1f1f",
+    borderRadius: 12,
+    padding: "10px 12px",
+    marginBottom: 10,
+  },
+
+  muted: {
+    color: "#6f665d",
+    fontSize: 14,
+    marginTop: 4,
+  },
+
+  toolbar: {
+    display: "grid",
+    gridTemplateColumns: "1fr auto",
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  list: {
+    display: "grid",
+    gap: 10,
+  },
+
+  card: {
+    background: "#fffdfb",
+    border: "1px solid #e7ddd2",
+    borderRadius: 16,
+    padding: 12,
+  },
+
+  groupHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: 10,
+    alignItems: "start",
+    marginBottom: 6,
+  },
+
+  groupTitle: {
+    fontWeight: 900,
+    fontSize: 16,
+  },
+
+  productRow: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 10,
+    padding: "8px 0",
+    borderTop: "1px solid #eee1d2",
+  },
+
+  chipsRow: {
+    display: "flex",
+    gap: 6,
+    flexWrap: "wrap",
+    margin: "8px 0",
+  },
+
+  chip: {
+    border: "1px solid #e7ddd2",
+    background: "#efe5d8",
+    color: "#2d251d",
+    borderRadius: 999,
+    padding: "6px 12px",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 14,
+  },
+
+  chipActive: {
+    background: "#8a5a36",
+    color: "#fff",
+    borderColor: "#8a5a36",
+  },
+
+  imageRow: {
+    display: "flex",
+    gap: 10,
+    alignItems: "center",
+  },
+
+  imageThumb: {
+    width: 72,
+    height: 72,
+    objectFit: "cover",
+    borderRadius: 12,
+  },
+
+  imagePlaceholder: {
+    minWidth: 72,
+    minHeight: 72,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    background: "#f3ece4",
+    color: "#8b7d70",
+    borderRadius: 12,
+    fontSize: 13,
+  },
+
+  imageGrid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(72px, 1fr))",
+    gap: 6,
+    maxHeight: 320,
+    overflowY: "auto",
+    marginTop: 8,
+  },
+
+  imageOption: {
+    border: "2px solid transparent",
+    borderRadius: 10,
+    padding: 0,
+    background: "transparent",
+    cursor: "pointer",
+  },
+
+  imageOptionActive: {
+    borderColor: "#8a5a36",
+  },
+
+  imageOptionImg: {
+    width: "100%",
+    aspectRatio: "1 / 1",
+    objectFit: "cover",
+    borderRadius: 8,
+    display: "block",
+  },
+
+  previewCard: {
+    background: "#fff",
+    border: "1px solid #e7ddd2",
+    borderRadius: 18,
+    overflow: "hidden",
+    boxShadow: "0 2px 10px rgba(0,0,0,0.04)",
+  },
+
+  previewImg: {
+    width: "100%",
+    height: 200,
+    objectFit: "cover",
+    display: "block",
+  },
+
+  previewTitle: {
+    fontWeight: 900,
+    fontSize: 18,
+  },
+
+  previewPrice: {
+    fontWeight: 900,
+    fontSize: 20,
+    marginTop: 8,
+  },
+
+  actions: {
+    display: "flex",
+    gap: 8,
+    flexWrap: "wrap",
+    marginTop: 12,
+  },
+
+  primaryBtn: {
+    border: "none",
+    background: "#8a5a36",
+    color: "#fff",
+    borderRadius: 12,
+    padding: "12px 16px",
+    cursor: "pointer",
+    fontWeight: 800,
+    fontSize: 15,
+  },
+
+  secondaryBtn: {
+    border: "1px solid #e7ddd2",
+    background: "#fff",
+    color: "#2d251d",
+    borderRadius: 12,
+    padding: "12px 16px",
+    cursor: "pointer",
+    fontWeight: 800,
+  },
+
+  smallBtn: {
+    border: "1px solid #8a5a36",
+    background: "#fff",
+    color: "#8a5a36",
+    borderRadius: 10,
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontWeight: 700,
+    whiteSpace: "nowrap",
+  },
+
+  disabled: {
+    opacity: 0.65,
+    cursor: "not-allowed",
+  },
+};
@@ -1,10 +1,122 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
-  API_PRODUCTS_URL,
-  API_ORDER_URL,
-  API_ORDERS_URL,
-  API_CANCEL_URL,
-} from "./config";
+  ALREADY_PAID_CODE,
+  BAD_PAYMENT_METHOD_CODE,
+  CHANGE_TOO_SMALL_CODE,
+  BELOW_MIN_ORDER_CODE,
+  PROMO_MIN_SUM_CODE,
+  SLOT_FULL_CODE,
+  SLOT_REQUIRED_CODE,
+  SLOT_UNAVAILABLE_CODE,
+  UNKNOWN_ZONE_CODE,
+  cancelOrder,
+  checkPromoCode,
+  createInvoice,
+  fetchOrders,
+  fetchProducts,
+  fetchProfile,
+  fetchSettings,
+  fetchSlots,
+  GS_ACTION_UNSUPPORTED_CODE,
+  MALFORMED_RESPONSE_CODE,
+  NETWORK_CODE,
+  OTP_CHANNEL_UNAVAILABLE_CODE,
+  OTP_WRONG_CODE,
+  parseSettings,
+  PHONE_AUTH_REQUIRED_CODE,
+  RATE_LIMITED_CODE,
+  requestPhoneCode,
+  REVISION_CONFLICT_CODE,
+  saveProfileRequest,
+  SESSION_INVALID_CODE,
+  submitOrderRequest,
+  TIMEOUT_CODE,
+  updateOrderRequest,
+  verifyPhoneCode,
+} from "./api";
+import {
+  loadSavedCart,
+  mergeCartChanges,
+  orderToCartLines,
+  reconcileCart,
+  saveCart,
+  toCartLines,
+  toSavedCart,
+} from "./cart";
+import {
+  calcDelivery,
+  calcLineSum,
+  getBadgeText,
+  getDisplayUnit,
+  getFlavorKey,
+  getFlavorLabel,
+  getGroupKey,
+  getGroupTitle,
+  getMaxQty,
+  getMinQty,
+  getProductDisplayName,
+  getProductSubtitle,
+  getQtyLabel,
+  getSellMode,
+  getStepQty,
+  getStorageTypeLabel,
+  getVariantKey,
+  getVariantLabel,
+  isAvailable,
+  normalizeImagePath,
+  normalizeQtyForProduct,
+} from "./catalog";
+import {
+  formatDate,
+  formatSlotDate,
+  humanPaymentStatus,
+  humanStatus,
+  money,
+  PAYMENT_METHOD_LABELS,
+} from "./format";
+import {
+  isRetryableError,
+  listOutbox,
+  newOutboxEntry,
+  putOutbox,
+  removeOutbox,
+  retryDelayMs,
+} from "./outbox";
+import {
+  canAddAddress,
+  emptyProfile,
+  loadCloudProfile,
+  loadLocalProfile,
+  newAddress,
+  newestProfile,
+  saveProfileLocally,
+} from "./profile";
+import ProfileForm from "./ProfileForm";
+import { buildSearchIndex, searchProducts } from "./search";
+import {
+  getTelegramWebApp,
+  getTgInitData,
+  openExternalLink,
+  openInvoice,
+} from "./telegram";
+import type {
+  ApiError,
+  CartItem,
+  CustomerProfile,
+  DeliveryDay,
+  DeliveryTerms,
+  Order,
+  OrderChange,
+  OrderEdit,
+  OrderPayload,
+  OutboxEntry,
+  PhoneSession,
+  Product,
+  PromoInfo,
+  PaymentMethod,
+  SavedAddress,
+  ShopSettings,
+} from "./types";
 
 declare global {
   interface Window {
@@ -13,296 +125,73 @@ declare global {
   }
 }
 
-type Product = {
-  id: string;
-  category: string;
-  name: string;
-  unit: string;
-  price: number;
-  sort: number;
-  description?: string;
-  image?: string;
-  sellMode?: "weight" | "piece" | string;
-  minQty?: number;
-  stepQty?: number;
-  groupId?: string;
-  variantName?: string;
-  shortName?: string;
-  badge?: string;
-  storageType?: string;
-  storageDays?: number | string;
-  composition?: string;
-  subtitle?: string;
-  flavor?: string;
-};
-
-type CartItem = {
-  product: Product;
-  qty: number;
-};
-
-type TgUser = {
-  id?: number;
-  username?: string;
-  first_name?: string;
-  last_name?: string;
-};
-
-type OrderItem = {
-  id?: string;
-  name: string;
-  unit?: string;
-  price: number;
-  qty: number;
-  sum: number;
-};
-
-type Order = {
-  orderId: string;
-  createdAt: string;
-  status: string;
-  name?: string;
-  phone?: string;
-  total: number;
-  delivery: number;
-  grandTotal: number;
-  items: OrderItem[];
-  cancelReason?: string;
-};
-
 type Toast = { type: "error" | "success" | "info"; text: string } | null;
 
 const PRODUCTS_CACHE_KEY = "farm_products_cache_v3";
 const PRODUCTS_CACHE_TTL_MS = 5 * 60 * 1000;
 const LAST_PHONE_KEY = "farm_last_phone_v1";
 const PENDING_ORDER_ID_KEY = "farm_pending_order_id_v1";
-
-const DELIVERY_FEE = 200;
-const FREE_DELIVERY_FROM = 2000;
+const PHONE_SESSION_KEY = "farm_phone_session_v1";
+const SETTINGS_CACHE_KEY = "farm_settings_v1";
+
+const TG_AUTH_FAILED_CODE = "tg_auth_failed";
+const TG_AUTH_FAILED_TEXT =
+  "Не удалось подтвердить вход через Telegram. Закройте и откройте приложение заново.";
+
+const PRICES_CHANGED_CODE = "prices_changed";
+
+// Используются, пока не загрузились настройки с сервера (/api/settings).
+const DEFAULT_SETTINGS: ShopSettings = {
+  deliveryFee: 200,
+  freeDeliveryFrom: 2000,
+  minOrderSum: 0,
+  zones: [],
+  onlinePayment: false,
+  sbpUrl: "",
+};
 const METRIKA_ID = 108236605;
 
-function getTelegramWebApp() {
-  try {
-    const tg = window.Telegram?.WebApp;
-    if (!tg) return null;
-    return tg;
-  } catch {
-    return null;
-  }
-}
-
-function getTgUser(): TgUser | null {
-  try {
-    const tg = getTelegramWebApp();
-    return tg?.initDataUnsafe?.user || null;
-  } catch {
-    return null;
-  }
-}
-
-function money(n: number) {
-  const value = Number(n) || 0;
-  return new Intl.NumberFormat("ru-RU", {
-    minimumFractionDigits: value % 1 === 0 ? 0 : 1,
-    maximumFractionDigits: 2,
-  }).format(value);
-}
-
 function normalizePhone(p: string) {
   return String(p || "").replace(/\D+/g, "");
 }
 
-function formatDate(iso: string) {
-  const d = new Date(iso);
-  if (Number.isNaN(d.getTime())) return iso;
-  return new Intl.DateTimeFormat("ru-RU", {
-    day: "2-digit",
-    month: "2-digit",
-    year: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-  }).format(d);
-}
-
-function humanStatus(s: string) {
-  const v = String(s || "").toLowerCase();
-  if (v === "new") return "Новый";
-  if (v === "accepted") return "Принят";
-  if (v === "cooking" || v === "in_work") return "В работе";
-  if (v === "delivering") return "Доставляется";
-  if (v === "done" || v === "completed") return "Выполнен";
-  if (v === "canceled" || v === "cancelled") return "Отменён";
-  return s || "—";
-}
-
-function normalizeImagePath(img?: string): string | undefined {
-  const s = String(img || "").trim();
-  if (!s) return undefined;
-  if (s.startsWith("http://") || s.startsWith("https://")) return s;
-  if (s.startsWith("/")) return s;
-  if (s.startsWith("public/")) return "/" + s.replace(/^public\//, "");
-  return "/" + s;
-}
-
-function getGroupKey(product: Product) {
-  return String(product.groupId || product.id || "").trim();
-}
-
-function sanitizeGroupTitle(value: string) {
-  return String(value || "")
-    .replace(/[\s,;:/|._-]+$/, "")
-    .replace(/[\s]+$/, "")
-    .trim();
-}
-
-function getSharedPrefix(values: string[]) {
-  if (!values.length) return "";
-  let prefix = values[0] || "";
-
-  for (let i = 1; i < values.length; i += 1) {
-    const current = values[i] || "";
-    let j = 0;
-    const max = Math.min(prefix.length, current.length);
-
-    while (j < max && prefix[j].toLowerCase() === current[j].toLowerCase()) {
-      j += 1;
-    }
-
-    prefix = prefix.slice(0, j);
-    if (!prefix) break;
-  }
-
-  return sanitizeGroupTitle(prefix);
-}
-
-function getGroupTitle(group: Product[]) {
-  if (!group.length) return "";
-
-  const names = group
-    .map((p) => String(p.name || "").trim())
-    .filter(Boolean);
-
-  if (!names.length) return "";
-
-  const prefix = getSharedPrefix(names);
-  if (prefix.length >= 3) return prefix;
-
-  return names[0];
-}
-
-function getProductSubtitle(product: Product, fallbackTitle?: string) {
-  const explicit = String(product.subtitle || "").trim();
-  if (explicit) return explicit;
-
-  const raw = String(product.description || "").trim();
-  if (!raw) return "";
-
-  const firstSentence =
-    raw
-      .split(/\n|[.!?]/)
-      .map((s) => s.trim())
-      .find(Boolean) || "";
-
-  if (!firstSentence) return "";
-
-  if (fallbackTitle) {
-    const normalizedTitle = fallbackTitle.toLowerCase();
-    if (firstSentence.toLowerCase() === normalizedTitle) return "";
-  }
-
-  if (/^состав\s*:/i.test(firstSentence)) return "";
-  if (/^срок\s*хранения\s*:/i.test(firstSentence)) return "";
-
-  return firstSentence;
-}
-
-function getProductDisplayName(product: Product, withFlavor = true) {
-  const name = String(product.name || "").trim();
-  const variantName = String(product.variantName || "").trim();
-  const flavor = String(product.flavor || "").trim();
-  const shortName = String(product.shortName || "").trim();
-
-  const parts: string[] = [];
-
-  if (name) {
-    parts.push(name);
-  }
-
-  if (variantName) {
-    const nameLower = name.toLowerCase();
-    const variantLower = variantName.toLowerCase();
-
-    if (!nameLower.includes(variantLower)) {
-      parts.push(variantName);
-    }
-  }
-
-  if (withFlavor && flavor) {
-    parts.push(flavor);
-  }
-
-  if (shortName) {
-    parts.push(shortName);
-  }
-
-  return parts.join(" · ");
-}
-
-function getVariantKey(product: Product) {
-  return String(product.variantName || "__default__").trim() || "__default__";
-}
-
-function getVariantLabel(product: Product) {
-  const variantName = String(product.variantName || "").trim();
-  const shortName = String(product.shortName || "").trim();
-
-  if (variantName && shortName) return `${variantName} · ${shortName}`;
-  if (variantName) return variantName;
-  if (shortName) return shortName;
-
-  return String(product.unit || "").trim() || String(product.name || "").trim();
-}
-
-function getFlavorKey(product: Product) {
-  return String(product.flavor || "").trim();
-}
-
-function getFlavorLabel(product: Product) {
-  return String(product.flavor || "").trim();
-}
-
-function getBadgeText(group: Product[], selected: Product) {
-  const direct = String(selected.badge || "").trim();
-  if (direct) return direct;
-
-  const fromGroup = group
-    .map((p) => String(p.badge || "").trim())
-    .find(Boolean);
-
-  return fromGroup || "";
-}
-
-function getStorageTypeLabel(product: Product) {
-  return String(product.storageType || "").trim();
+function isOrderPayable(order: Order) {
+  const v = String(order.status || "").toLowerCase();
+  return (
+    order.paymentStatus !== "paid" &&
+    v !== "canceled" &&
+    v !== "cancelled" &&
+    v !== "done" &&
+    v !== "completed" &&
+    order.grandTotal > 0
+  );
 }
 
-function loadProductsCache(): { ts: number; products: Product[] } | null {
+function loadProductsCache(): {
+  ts: number;
+  products: Product[];
+  etag: string;
+} | null {
   try {
     const raw = localStorage.getItem(PRODUCTS_CACHE_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw);
     if (!parsed?.ts || !Array.isArray(parsed?.products)) return null;
-    return { ts: parsed.ts, products: parsed.products };
+    return {
+      ts: parsed.ts,
+      products: parsed.products,
+      etag: String(parsed.etag || ""),
+    };
   } catch {
     return null;
   }
 }
 
-function saveProductsCache(products: Product[]) {
+function saveProductsCache(products: Product[], etag: string) {
   try {
     localStorage.setItem(
       PRODUCTS_CACHE_KEY,
-      JSON.stringify({ ts: Date.now(), products })
+      JSON.stringify({ ts: Date.now(), products, etag })
     );
   } catch {}
 }
@@ -321,22 +210,48 @@ function saveLastPhone(phone: string) {
   } catch {}
 }
 
-async function fetchWithTimeout(
-  input: RequestInfo,
-  init: RequestInit & { timeoutMs?: number } = {}
-) {
-  const { timeoutMs = 35000, ...rest } = init;
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), timeoutMs);
+function loadSettingsCache(): ShopSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_CACHE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    return parseSettings(JSON.parse(raw), DEFAULT_SETTINGS);
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+function saveSettingsCache(settings: ShopSettings) {
+  try {
+    localStorage.setItem(SETTINGS_CACHE_KEY, JSON.stringify(settings));
+  } catch {}
+}
 
+function loadPhoneSession(): PhoneSession | null {
   try {
-    const res = await fetch(input, { ...rest, signal: controller.signal });
-    return res;
-  } finally {
-    clearTimeout(t);
+    const raw = localStorage.getItem(PHONE_SESSION_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed?.token || !(Number(parsed.expiresAt) > Date.now())) return null;
+    return {
+      token: String(parsed.token),
+      phone: String(parsed.phone || ""),
+      expiresAt: Number(parsed.expiresAt),
+    };
+  } catch {
+    return null;
   }
 }
 
+function savePhoneSession(session: PhoneSession | null) {
+  try {
+    if (session) {
+      localStorage.setItem(PHONE_SESSION_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(PHONE_SESSION_KEY);
+    }
+  } catch {}
+}
+
 function makeOrderId() {
   const pending = sessionStorage.getItem(PENDING_ORDER_ID_KEY);
   if (pending) return pending;
@@ -422,87 +337,114 @@ function trackOrderCreated() {
   }
 }
 
-function getSellMode(product: Product): "weight" | "piece" {
-  return String(product.sellMode || "").toLowerCase() === "weight"
-    ? "weight"
-    : "piece";
+// Те же правила, что в api/_lib/promo.js; окончательно скидку считает сервер.
+function calcPromoDiscount(promo: PromoInfo, total: number, delivery: number) {
+  if (total <= 0 || total < promo.minSum) return 0;
+  if (promo.type === "percent") return Number(((total * promo.value) / 100).toFixed(2));
+  if (promo.type === "fixed") return Math.min(promo.value, total);
+  return delivery;
 }
 
-function getMinQty(product: Product) {
-  const raw = Number(product.minQty);
-  if (Number.isFinite(raw) && raw > 0) return raw;
-  return getSellMode(product) === "weight" ? 300 : 1;
+function describePromo(promo: PromoInfo) {
+  if (promo.type === "percent") return `скидка ${money(promo.value)}%`;
+  if (promo.type === "fixed") return `скидка ${money(promo.value)} ₽`;
+  return "бесплатная доставка";
 }
 
-function getStepQty(product: Product) {
-  const raw = Number(product.stepQty);
-  if (Number.isFinite(raw) && raw > 0) return raw;
-  return getSellMode(product) === "weight" ? 50 : 1;
-}
+function describeOrderChange(change: OrderChange, product?: Product) {
+  const name = change.name || product?.name || "Товар";
 
-function formatKg(kg: number) {
-  return Number.isInteger(kg) ? String(kg) : String(kg).replace(".", ",");
-}
+  if (change.kind === "removed") return `${name}: товар больше недоступен`;
+  if (change.kind === "out_of_stock") return `${name}: закончился`;
 
-function getQtyLabel(product: Product, qty: number) {
-  if (getSellMode(product) !== "weight") {
-    return `${qty} шт`;
+  if (change.kind === "price") {
+    return `${name}: цена изменилась ${money(change.oldPrice || 0)} → ${money(
+      change.newPrice || 0
+    )} ₽`;
   }
 
-  if (qty >= 1000) {
-    return `${formatKg(qty / 1000)} кг`;
+  if (change.kind === "qty" || change.kind === "stock") {
+    const oldQty = change.oldQty || 0;
+    const newQty = change.newQty || 0;
+    if (change.kind === "stock") {
+      return product
+        ? `${name}: в наличии только ${getQtyLabel(product, newQty)}`
+        : `${name}: в наличии только ${newQty}`;
+    }
+    return product
+      ? `${name}: количество ${getQtyLabel(product, oldQty)} → ${getQtyLabel(product, newQty)}`
+      : `${name}: количество ${oldQty} → ${newQty}`;
   }
 
-  return `${qty} г`;
+  return name;
 }
 
-function getDisplayUnit(product: Product) {
-  return getSellMode(product) === "weight" ? "г" : "шт";
+function formatRetryAfter(sec?: number) {
+  if (!sec || sec <= 0) return "немного позже";
+  if (sec < 60) return `через ${Math.ceil(sec)} сек`;
+  return `через ${Math.ceil(sec / 60)} мин`;
 }
 
-function getWeightPriceBase(product: Product) {
-  const unit = String(product.unit || "")
-    .toLowerCase()
-    .replace(",", ".")
-    .replace(/\s+/g, "");
-
-  // кг → граммы
-  const kgMatch = unit.match(/(\d+(?:\.\d+)?)кг/);
-  if (kgMatch) {
-    return Math.round(parseFloat(kgMatch[1]) * 1000);
-  }
-
-  // граммы
-  const gMatch = unit.match(/(\d+)г/);
-  if (gMatch) {
-    return parseInt(gMatch[1]);
-  }
+const PROMO_ERROR_TEXT: Record<string, string> = {
+  promo_not_found: "Такого промокода нет.",
+  promo_not_started: "Промокод ещё не действует.",
+  promo_expired: "Срок действия промокода истёк.",
+  promo_exhausted: "Промокод больше не действует: все активации использованы.",
+  promo_already_used: "Вы уже использовали этот промокод.",
+};
 
-  return 1000;
+function isPromoError(code?: string) {
+  return !!code && (code in PROMO_ERROR_TEXT || code === PROMO_MIN_SUM_CODE);
 }
 
-function normalizeQtyForProduct(product: Product, rawQty: number) {
-  const mode = getSellMode(product);
-  const minQty = getMinQty(product);
-  const stepQty = getStepQty(product);
-
-  if (!Number.isFinite(rawQty)) return minQty;
-
-  if (mode === "weight") {
-    const rounded = Math.round(rawQty / stepQty) * stepQty;
-    return Math.max(minQty, rounded);
+function apiErrorText(err: ApiError) {
+  if (err.code === NETWORK_CODE) return "Нет связи с сервером.";
+  if (err.code === MALFORMED_RESPONSE_CODE) {
+    return "Сервер ответил что-то непонятное. Попробуйте позже.";
   }
-
-  const rounded = Math.round(rawQty / stepQty) * stepQty;
-  return Math.max(minQty, rounded);
-}
-
-function calcLineSum(product: Product, qty: number) {
-  if (getSellMode(product) === "weight") {
-    const base = getWeightPriceBase(product);
-    return (qty / base) * product.price;
+  if (err.code === GS_ACTION_UNSUPPORTED_CODE) return "Эта возможность пока недоступна.";
+  if (err.code === TG_AUTH_FAILED_CODE) return TG_AUTH_FAILED_TEXT;
+  if (err.code === RATE_LIMITED_CODE) {
+    return `Слишком много запросов. Попробуйте ${formatRetryAfter(err.retryAfter)}.`;
+  }
+  if (err.code === TIMEOUT_CODE) return "Сервер долго отвечает. Попробуйте ещё раз.";
+  if (err.code === PHONE_AUTH_REQUIRED_CODE || err.code === SESSION_INVALID_CODE) {
+    return "Подтвердите номер телефона кодом, чтобы увидеть заказы.";
+  }
+  if (err.code === OTP_WRONG_CODE) return "Неверный код. Проверьте и попробуйте ещё раз.";
+  if (err.code === OTP_CHANNEL_UNAVAILABLE_CODE) {
+    return "Номер не привязан к Telegram: отправьте боту /start и поделитесь номером.";
+  }
+  if (err.code === SLOT_REQUIRED_CODE) {
+    return "Выберите день и время доставки.";
+  }
+  if (err.code === SLOT_FULL_CODE) {
+    return "На это время мест уже нет. Выберите другое окно доставки.";
+  }
+  if (err.code === SLOT_UNAVAILABLE_CODE) {
+    return "Запись на это время уже закрыта. Выберите другое окно доставки.";
   }
-  return qty * product.price;
+  if (err.code && PROMO_ERROR_TEXT[err.code]) return PROMO_ERROR_TEXT[err.code];
+  if (err.code === PROMO_MIN_SUM_CODE) {
+    return `Промокод действует для заказов от ${money(err.minSum || 0)} ₽.`;
+  }
+  if (err.code === UNKNOWN_ZONE_CODE) {
+    return "Выбранная зона доставки больше недоступна. Выберите другую.";
+  }
+  if (err.code === BELOW_MIN_ORDER_CODE) {
+    return `Минимальная сумма заказа — ${money(err.minOrderSum || 0)} ₽.`;
+  }
+  if (err.code === ALREADY_PAID_CODE) return "Заказ уже оплачен.";
+  if (err.code === BAD_PAYMENT_METHOD_CODE) {
+    return "Этот способ оплаты сейчас недоступен. Выберите другой.";
+  }
+  if (err.code === CHANGE_TOO_SMALL_CODE) {
+    return "Сумма, с которой нужна сдача, меньше суммы заказа.";
+  }
+  if (err.code === REVISION_CONFLICT_CODE) {
+    return "Заказ уже изменился. Обновите список заказов и попробуйте снова.";
+  }
+  return err.error;
 }
 
 function useIsMobile(breakpoint = 720) {
@@ -520,8 +462,25 @@ function useIsMobile(breakpoint = 720) {
   return isMobile;
 }
 
+function useIsOnline() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+}
+
 export default function App() {
   const isMobile = useIsMobile();
+  const isOnline = useIsOnline();
 
   const [loading, setLoading] = useState(true);
   const [loadingHint, setLoadingHint] = useState<string>("");
@@ -529,31 +488,70 @@ export default function App() {
   const [toast, setToast] = useState<Toast>(null);
 
   const [products, setProducts] = useState<Product[]>([]);
+  const [settings, setSettings] = useState<ShopSettings>(() => loadSettingsCache());
   const [activeCategory, setActiveCategory] = useState<string>("Все");
-  const [tab, setTab] = useState<"catalog" | "cart" | "checkout" | "orders">(
-    "catalog"
-  );
+  const [searchQuery, setSearchQuery] = useState("");
+  const [tab, setTab] = useState<
+    "catalog" | "cart" | "checkout" | "orders" | "profile"
+  >("catalog");
 
   const [cart, setCart] = useState<Record<string, CartItem>>({});
+  const cartRestoredRef = useRef(false);
+  // Правка заказа идёт в той же корзине; корзина покупателя на это время
+  // откладывается и возвращается, когда правка закончена.
+  const cartBeforeEditRef = useRef<Record<string, CartItem> | null>(null);
   const [qtyDrafts, setQtyDrafts] = useState<Record<string, string>>({});
   const [selectedVariantByGroup, setSelectedVariantByGroup] = useState<Record<string, string>>({});
   const [selectedFlavorByGroupVariant, setSelectedFlavorByGroupVariant] = useState<Record<string, string>>({});
 
   const [address, setAddress] = useState("");
+  const [zoneId, setZoneId] = useState("");
+  const [slotDays, setSlotDays] = useState<DeliveryDay[]>([]);
+  const [slotsEnabled, setSlotsEnabled] = useState(false);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [slotsError, setSlotsError] = useState("");
+  const [deliveryDate, setDeliveryDate] = useState("");
+  const [deliverySlot, setDeliverySlot] = useState("");
   const [comment, setComment] = useState("");
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<PromoInfo | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | "">("");
+  const [changeFrom, setChangeFrom] = useState("");
+  const [promoChecking, setPromoChecking] = useState(false);
+
+  const [profile, setProfile] = useState<CustomerProfile>(
+    () => loadLocalProfile() || emptyProfile()
+  );
+  const [profileSaving, setProfileSaving] = useState(false);
 
-  const [customerName, setCustomerName] = useState("");
-  const [phone, setPhone] = useState(() => loadLastPhone());
+  const [customerName, setCustomerName] = useState(() => profile.name);
+  const [phone, setPhone] = useState(() => loadLastPhone() || profile.phone);
 
   const [sending, setSending] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<OrderEdit | null>(null);
+  const [orderChanges, setOrderChanges] = useState<OrderChange[]>([]);
+  // Расхождения корзины с обновлённым каталогом — до подтверждения
+  // покупателем оформление закрыто.
+  const [cartChanges, setCartChanges] = useState<OrderChange[]>([]);
 
   const [zoomSrc, setZoomSrc] = useState<string | null>(null);
 
   const [ordersLoading, setOrdersLoading] = useState(false);
   const [ordersError, setOrdersError] = useState("");
   const [orders, setOrders] = useState<Order[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const outboxFlushingRef = useRef(false);
+  const submittingOrderIdRef = useRef("");
+
+  const [phoneSession, setPhoneSession] = useState<PhoneSession | null>(() =>
+    loadPhoneSession()
+  );
+  const [otpChallenge, setOtpChallenge] = useState("");
+  const [otpCode, setOtpCode] = useState("");
+  const [otpSending, setOtpSending] = useState(false);
 
   const [cancelOrderId, setCancelOrderId] = useState<string | null>(null);
+  const [payingOrderId, setPayingOrderId] = useState("");
   const [cancelReason, setCancelReason] = useState("");
 
   useEffect(() => {
@@ -604,25 +602,21 @@ export default function App() {
           setLoadingHint("Показан сохранённый ассортимент. Обновляем данные…");
         }
 
-        const url = `${API_PRODUCTS_URL}?nocache=1&t=${Date.now()}`;
-        const res = await fetchWithTimeout(url, {
-          method: "GET",
-          timeoutMs: 35000,
-        });
-        const data = await res.json();
-
-        if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-        if (data?.error) throw new Error(data.error);
-
-        const list: Product[] = (data.products || []).map((p: Product) => ({
-          ...p,
-          image: normalizeImagePath(p.image),
-        }));
-
+        const result = await fetchProducts(cached?.etag);
         if (cancelled) return;
+        if (!result.ok) throw new Error(apiErrorText(result));
+
+        const list: Product[] =
+          result.data.notModified && cached
+            ? cached.products
+            : result.data.products.map((p) => ({
+                ...p,
+                image: normalizeImagePath(p.image),
+              }));
 
         setProducts(list);
-        saveProductsCache(list);
+        saveProductsCache(list, result.data.etag);
+        restoreCart(list);
 
         setLoading(false);
         setError("");
@@ -632,6 +626,7 @@ export default function App() {
 
         if (cached) {
           setProducts(cached.products);
+          restoreCart(cached.products);
           setLoading(false);
           setError("");
           setLoadingHint(
@@ -640,11 +635,7 @@ export default function App() {
           return;
         }
 
-        if (e?.name === "AbortError") {
-          setError("Сервер долго отвечает. Попробуйте ещё раз.");
-        } else {
-          setError(e?.message || "Ошибка загрузки товаров");
-        }
+        setError(e?.message || "Ошибка загрузки товаров");
 
         setLoading(false);
         setLoadingHint("");
@@ -656,6 +647,24 @@ export default function App() {
     };
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSettings(DEFAULT_SETTINGS).then((result) => {
+      if (cancelled || !result.ok) return;
+      setSettings(result.data);
+      saveSettingsCache(result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (tab === "checkout") loadSlots();
+  }, [tab]);
+
   const categories = useMemo(() => {
     const set = new Set<string>();
 
@@ -675,7 +684,31 @@ export default function App() {
     }
   }, [categories, activeCategory]);
 
+  const searchIndex = useMemo(() => buildSearchIndex(products), [products]);
+
+  // Поиск идёт по всему каталогу, без учёта категории. Группа товара
+  // получает лучшую оценку среди своих вариантов и показывается целиком.
+  const searchGroupScores = useMemo(() => {
+    if (!searchQuery.trim()) return null;
+
+    const scores = searchProducts(searchIndex, searchQuery);
+    const byGroup = new Map<string, number>();
+
+    products.forEach((p) => {
+      const score = scores.get(p.id);
+      if (!score) return;
+      const key = getGroupKey(p);
+      byGroup.set(key, Math.max(byGroup.get(key) || 0, score));
+    });
+
+    return byGroup;
+  }, [products, searchIndex, searchQuery]);
+
   const filteredProducts = useMemo(() => {
+    if (searchGroupScores) {
+      return products.filter((p) => searchGroupScores.has(getGroupKey(p)));
+    }
+
     if (activeCategory === "Все") return products;
 
     if (activeCategory === "Акции") {
@@ -685,7 +718,7 @@ export default function App() {
     }
 
     return products.filter((p) => p.category === activeCategory);
-  }, [products, activeCategory]);
+  }, [products, activeCategory, searchGroupScores]);
 
   const groupedProducts = useMemo(() => {
     const map = new Map<string, Product[]>();
@@ -715,7 +748,13 @@ export default function App() {
           minSort,
         };
       })
-      .sort((a, b) => a.minSort - b.minSort);
+      .sort(
+        (a, b) =>
+          (searchGroupScores
+            ? (searchGroupScores.get(b.groupKey) || 0) -
+              (searchGroupScores.get(a.groupKey) || 0)
+            : 0) || a.minSort - b.minSort
+      );
   }, [filteredProducts]);
 
   const cartItems = useMemo(() => Object.values(cart), [cart]);
@@ -727,12 +766,88 @@ export default function App() {
     [cartItems]
   );
 
-  const delivery = useMemo(() => {
-    if (total <= 0) return 0;
-    return total < FREE_DELIVERY_FROM ? DELIVERY_FEE : 0;
-  }, [total]);
+  const selectedZone = useMemo(
+    () => settings.zones.find((z) => z.id === zoneId) || null,
+    [settings.zones, zoneId]
+  );
+
+  // Пока зона не выбрана, считаем по общим условиям.
+  const deliveryTerms: DeliveryTerms = selectedZone || settings;
+  const zoneRequired = settings.zones.length > 0;
+
+  const delivery = useMemo(
+    () => calcDelivery(total, deliveryTerms),
+    [total, deliveryTerms]
+  );
+
+  const belowMinOrder = total > 0 && total < deliveryTerms.minOrderSum;
+
+  const selectedSlotDay = useMemo(
+    () => slotDays.find((d) => d.date === deliveryDate) || null,
+    [slotDays, deliveryDate]
+  );
+
+  const discount = useMemo(
+    () => (appliedPromo ? calcPromoDiscount(appliedPromo, total, delivery) : 0),
+    [appliedPromo, total, delivery]
+  );
+
+  const grandTotal = useMemo(
+    () => total + delivery - discount,
+    [total, delivery, discount]
+  );
+
+  // Ответ сервера мог потеряться уже после записи заказа — такой заказ
+  // показываем из списка сервера, а не из outbox.
+  const pendingOrders = useMemo(
+    () => outbox.filter((entry) => !orders.some((o) => o.orderId === entry.orderId)),
+    [outbox, orders]
+  );
+
+  // СБП — только если в настройках есть ссылка для перевода,
+  // онлайн — только при подключённом платёжном провайдере и если сервер
+  // сможет узнать покупателя: ссылку на оплату выдают только владельцу заказа.
+  const paymentMethods = useMemo(() => {
+    const list: PaymentMethod[] = ["cash", "card"];
+    if (settings.sbpUrl) list.push("sbp");
+    if (settings.onlinePayment && (getTgInitData() || phoneSession)) list.push("online");
+    return list;
+  }, [settings.sbpUrl, settings.onlinePayment, phoneSession]);
+
+  // Сохранённая корзина восстанавливается один раз, когда загружен
+  // каталог: до этого не с чем сверять цены и остатки.
+  async function restoreCart(list: Product[]) {
+    if (cartRestoredRef.current) return;
+
+    const saved = await loadSavedCart();
+    const { cart: restored, changes } = reconcileCart(saved?.lines || [], list);
+
+    // Что покупатель успел добавить, пока грузился каталог, не затираем.
+    setCart((prev) => ({ ...restored, ...prev }));
+    cartRestoredRef.current = true;
+
+    if (changes.length) {
+      setCartChanges((prev) => mergeCartChanges(prev, changes));
+      setToast({
+        type: "info",
+        text: "Корзина восстановлена, но часть товаров изменилась — проверьте её.",
+      });
+    }
+  }
+
+  // Каталог обновился (фоновая загрузка после кэша) — строки корзины
+  // получают свежие цены и остатки, а не хранят старый снимок товара.
+  useEffect(() => {
+    if (!products.length || !Object.keys(cart).length) return;
 
-  const grandTotal = useMemo(() => total + delivery, [total, delivery]);
+    const { cart: next, changes } = reconcileCart(toCartLines(cart), products);
+    setCart(next);
+
+    if (changes.length) {
+      setCartChanges((prev) => mergeCartChanges(prev, changes));
+      setQtyDrafts({});
+    }
+  }, [products]);
 
   function qtyOf(productId: string) {
     return cart[productId]?.qty || 0;
@@ -747,6 +862,7 @@ export default function App() {
   }
 
   function addToCart(p: Product) {
+    if (!isAvailable(p)) return;
     const initialQty = getMinQty(p);
 
     setCart((prev) => {
@@ -773,7 +889,17 @@ export default function App() {
   }
 
   function setQty(product: Product, rawQty: number) {
-    const qty = normalizeQtyForProduct(product, rawQty);
+    const maxQty = getMaxQty(product);
+    const normalized = normalizeQtyForProduct(product, rawQty);
+    const qty = Math.min(normalized, maxQty);
+    if (qty === 0) return;
+
+    if (normalized > maxQty) {
+      setToast({
+        type: "info",
+        text: `В наличии только ${getQtyLabel(product, maxQty)}.`,
+      });
+    }
 
     setCart((prev) => {
       const next = { ...prev };
@@ -822,9 +948,290 @@ export default function App() {
     if (address.trim().length < 5)
       return "Укажи адрес доставки (минимум 5 символов).";
     if (cartItems.length === 0) return "Корзина пустая.";
+    if (cartChanges.length) return "Проверьте изменения в корзине и нажмите «Понятно».";
+    if (zoneRequired && !selectedZone) return "Выберите зону доставки.";
+    if (slotsEnabled && (!deliveryDate || !deliverySlot)) {
+      return "Выберите день и время доставки.";
+    }
+    if (belowMinOrder) {
+      return selectedZone
+        ? `Минимальная сумма заказа в зону «${selectedZone.name}» — ${money(selectedZone.minOrderSum)} ₽.`
+        : `Минимальная сумма заказа — ${money(deliveryTerms.minOrderSum)} ₽.`;
+    }
+    if (!paymentMethod || !paymentMethods.includes(paymentMethod)) {
+      return "Выберите способ оплаты.";
+    }
+    if (paymentMethod === "cash" && changeFrom.trim()) {
+      const n = Number(changeFrom.replace(",", "."));
+      if (!Number.isFinite(n) || n < grandTotal) {
+        return `Сумма, с которой нужна сдача, должна быть не меньше ${money(grandTotal)} ₽.`;
+      }
+    }
     return null;
   }
 
+  function applyOrderChanges(changes: OrderChange[]) {
+    setCart((prev) => {
+      const next = { ...prev };
+
+      changes.forEach((change) => {
+        const cur = next[change.id];
+        if (!cur) return;
+
+        if (change.kind === "removed" || change.kind === "out_of_stock") {
+          delete next[change.id];
+        } else if (change.kind === "price") {
+          next[change.id] = {
+            ...cur,
+            product: { ...cur.product, price: Number(change.newPrice) || 0 },
+          };
+        } else if (change.kind === "qty" || change.kind === "stock") {
+          next[change.id] = { ...cur, qty: Number(change.newQty) || cur.qty };
+        }
+      });
+
+      return next;
+    });
+
+    setQtyDrafts({});
+    setOrderChanges(changes);
+  }
+
+  function buildOrderItems() {
+    return cartItems.map((it) => ({
+      id: it.product.id,
+      name: getProductDisplayName(it.product),
+      unit: getDisplayUnit(it.product),
+      price: it.product.price,
+      qty: it.qty,
+      sum: Number(calcLineSum(it.product, it.qty).toFixed(2)),
+    }));
+  }
+
+  function buildPaymentFields() {
+    const method = paymentMethod || "cash";
+    return {
+      paymentMethod: method,
+      changeFrom:
+        method === "cash" ? Number(changeFrom.replace(",", ".")) || 0 : 0,
+    };
+  }
+
+  function resetCheckoutForm() {
+    setOrderChanges([]);
+    setCartChanges([]);
+    setCart(cartBeforeEditRef.current || {});
+    cartBeforeEditRef.current = null;
+    setQtyDrafts({});
+    setAddress("");
+    setZoneId("");
+    setDeliveryDate("");
+    setDeliverySlot("");
+    setComment("");
+    setPromoInput("");
+    setAppliedPromo(null);
+    setPaymentMethod("");
+    setChangeFrom("");
+    setCustomerName(profile.name);
+  }
+
+  async function loadSlots() {
+    setSlotsLoading(true);
+    setSlotsError("");
+
+    const result = await fetchSlots(editingOrder?.orderId);
+    setSlotsLoading(false);
+
+    if (!result.ok) {
+      setSlotsError(apiErrorText(result));
+      return;
+    }
+
+    setSlotsEnabled(result.data.enabled);
+    setSlotDays(result.data.days);
+  }
+
+  // Занятое или закрывшееся окно сбрасываем, чтобы покупатель выбрал заново.
+  function handleSlotError(code?: string) {
+    if (code !== SLOT_FULL_CODE && code !== SLOT_UNAVAILABLE_CODE) return;
+    setDeliverySlot("");
+    loadSlots();
+  }
+
+  // order — заказ, который правится: его собственная активация не считается.
+  async function applyPromoCode(code = promoInput, order?: Order) {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    setPromoChecking(true);
+    const result = await checkPromoCode({
+      code: trimmed,
+      total: order ? order.total : Number(total.toFixed(2)),
+      delivery: order ? order.delivery : Number(delivery.toFixed(2)),
+      phone,
+      initData: getTgInitData(),
+      orderId: order?.orderId || editingOrder?.orderId,
+    });
+    setPromoChecking(false);
+
+    if (!result.ok) {
+      setAppliedPromo(null);
+      setToast({ type: "error", text: apiErrorText(result) });
+      return;
+    }
+
+    setAppliedPromo(result.data.promo);
+    setPromoInput(result.data.promo.code);
+    if (!order) {
+      setToast({
+        type: "success",
+        text: `Промокод ${result.data.promo.code} применён: ${describePromo(result.data.promo)}.`,
+      });
+    }
+  }
+
+  function removePromo() {
+    setAppliedPromo(null);
+    setPromoInput("");
+  }
+
+  // Новая корзина из прошлого заказа: количество приводится к нынешним
+  // правилам товара, а пропавшие товары и новые цены показываются в корзине
+  // до перехода к оформлению.
+  // Товары заказа добавляются к тому, что уже лежит в корзине, а во время
+  // правки другого заказа — к отложенной корзине покупателя.
+  function repeatOrder(order: Order) {
+    const base = editingOrder ? cartBeforeEditRef.current || {} : cart;
+    const lines = new Map(toCartLines(base).map((line) => [line.id, line]));
+
+    orderToCartLines(order).forEach((line) => {
+      const key = line.id || line.name;
+      const current = lines.get(key);
+      lines.set(key, current ? { ...current, qty: current.qty + line.qty } : line);
+    });
+
+    const { cart: nextCart, changes } = reconcileCart(Array.from(lines.values()), products);
+
+    if (!order.items.some((item) => item.id && nextCart[item.id])) {
+      setToast({ type: "error", text: "Товаров из этого заказа больше нет в продаже." });
+      return;
+    }
+
+    const merged = Object.keys(base).length > 0;
+
+    cartBeforeEditRef.current = null;
+    setEditingOrder(null);
+    setCart(nextCart);
+    setQtyDrafts({});
+    setOrderChanges([]);
+    setCartChanges((prev) => mergeCartChanges(editingOrder ? [] : prev, changes));
+    setTab("cart");
+
+    const done = merged ? "Товары заказа добавлены в корзину" : "Заказ собран в корзине";
+    setToast(
+      changes.length
+        ? {
+            type: "info",
+            text: `${done}, но часть товаров изменилась — проверьте перед оформлением.`,
+          }
+        : { type: "success", text: `${done}.` }
+    );
+  }
+
+  // Состав заказа сверяется с каталогом так же, как при повторе: пропавшие
+  // товары убираются, количество приводится к шагу и остатку.
+  function startEditOrder(order: Order) {
+    const { cart: nextCart, changes } = reconcileCart(orderToCartLines(order), products);
+
+    if (!editingOrder) cartBeforeEditRef.current = cart;
+    setCart(nextCart);
+    setQtyDrafts({});
+    setOrderChanges([]);
+    setCartChanges(changes);
+    setAddress(order.address || "");
+    setZoneId(order.zoneId || "");
+    setPromoInput(order.promoCode || "");
+    setAppliedPromo(null);
+    if (order.promoCode) {
+      applyPromoCode(order.promoCode, order);
+    }
+    setDeliveryDate(order.deliveryDate || "");
+    setDeliverySlot(order.deliverySlot || "");
+    setPaymentMethod((order.paymentMethod as PaymentMethod | undefined) || "");
+    setChangeFrom(order.changeFrom ? String(order.changeFrom) : "");
+    setComment(order.comment || "");
+    if (order.name) setCustomerName(order.name);
+    if (order.phone) setPhone(order.phone);
+    setEditingOrder({ orderId: order.orderId, revision: order.revision || 1 });
+    setTab("cart");
+
+    setToast(
+      changes.length
+        ? {
+            type: "info",
+            text: "Заказ загружен в корзину для изменения, но часть товаров изменилась — проверьте её.",
+          }
+        : { type: "info", text: "Заказ загружен в корзину для изменения." }
+    );
+  }
+
+  function stopEditOrder() {
+    setEditingOrder(null);
+    resetCheckoutForm();
+    setTab("orders");
+  }
+
+  async function submitOrderUpdate(edit: OrderEdit) {
+    try {
+      setSending(true);
+
+      const result = await updateOrderRequest({
+        orderId: edit.orderId,
+        revision: edit.revision,
+        address,
+        comment,
+        zoneId,
+        deliveryDate,
+        deliverySlot,
+        promoCode: appliedPromo?.code || "",
+        ...buildPaymentFields(),
+        items: buildOrderItems(),
+        total: Number(total.toFixed(2)),
+        delivery: Number(delivery.toFixed(2)),
+        grandTotal: Number(grandTotal.toFixed(2)),
+        initData: getTgInitData(),
+        session: phoneSession?.token || "",
+      });
+
+      if (!result.ok && result.code === PRICES_CHANGED_CODE) {
+        applyOrderChanges(result.changes || []);
+        setToast({
+          type: "error",
+          text: "Цены или состав заказа изменились. Проверьте итог и подтвердите ещё раз.",
+        });
+        return;
+      }
+
+      if (!result.ok) {
+        handleSlotError(result.code);
+        if (isPromoError(result.code)) setAppliedPromo(null);
+        throw new Error(apiErrorText(result));
+      }
+
+      setToast({ type: "success", text: "✅ Заказ изменён." });
+      setEditingOrder(null);
+      resetCheckoutForm();
+      setTab("orders");
+    } catch (e: any) {
+      setToast({
+        type: "error",
+        text: `Не удалось изменить заказ: ${e?.message || "Ошибка"}`,
+      });
+    } finally {
+      setSending(false);
+    }
+  }
+
   async function submitOrder() {
     const validationError = validateCheckout();
     if (validationError) {
@@ -832,24 +1239,26 @@ export default function App() {
       return;
     }
 
+    if (editingOrder) {
+      await submitOrderUpdate(editingOrder);
+      return;
+    }
+
     const orderId = makeOrderId();
-    const tgUser = getTgUser();
     const { utmSource, utmMedium, utmCampaign } = getUtmData();
 
-    const items = cartItems.map((it) => ({
-      id: it.product.id,
-      name: getProductDisplayName(it.product),
-      unit: getDisplayUnit(it.product),
-      price: it.product.price,
-      qty: it.qty,
-      sum: Number(calcLineSum(it.product, it.qty).toFixed(2)),
-    }));
+    const items = buildOrderItems();
 
-    const payload = {
+    const payload: OrderPayload = {
       name: customerName,
       phone,
       address,
       comment,
+      zoneId,
+      deliveryDate,
+      deliverySlot,
+      promoCode: appliedPromo?.code || "",
+      ...buildPaymentFields(),
       items,
       total: Number(total.toFixed(2)),
       delivery: Number(delivery.toFixed(2)),
@@ -858,66 +1267,339 @@ export default function App() {
       utmSource,
       utmMedium,
       utmCampaign,
-      tg: tgUser
-        ? {
-            id: tgUser.id || "",
-            username: tgUser.username || "",
-            first_name: tgUser.first_name || "",
-            last_name: tgUser.last_name || "",
-          }
-        : {},
     };
 
+    // Заказ кладётся в outbox до отправки: если вкладку закроют посреди
+    // запроса, он уйдёт при следующем запуске.
+    const entry = newOutboxEntry(payload);
+
     try {
       setSending(true);
+      submittingOrderIdRef.current = orderId;
+      await putOutbox(entry);
 
-      const res = await fetch(API_ORDER_URL, {
-        method: "POST",
-        headers: { "Content-Type": "text/plain;charset=utf-8" },
-        body: JSON.stringify(payload),
-      });
+      const result = await submitOrderRequest(payload, getTgInitData());
+
+      if (!result.ok && isRetryableError(result)) {
+        await putOutbox({
+          ...entry,
+          attempts: 1,
+          nextAttemptAt: Date.now() + retryDelayMs(1, result.retryAfter),
+          error: apiErrorText(result),
+        });
+        setToast({
+          type: "info",
+          text: "Заказ сохранён и отправится сам, когда связь восстановится. Статус — в «Моих заказах».",
+        });
+        clearPendingOrderId();
+        resetCheckoutForm();
+        setTab("orders");
+        return;
+      }
 
-      const data = await res.json().catch(() => ({}));
+      await removeOutbox(orderId);
+
+      if (!result.ok && result.code === PRICES_CHANGED_CODE) {
+        applyOrderChanges(result.changes || []);
+        setToast({
+          type: "error",
+          text: "Цены или состав заказа изменились. Проверьте итог и подтвердите ещё раз.",
+        });
+        return;
+      }
 
-      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-      if (data?.error) throw new Error(data.error);
+      if (!result.ok) {
+        handleSlotError(result.code);
+        if (isPromoError(result.code)) setAppliedPromo(null);
+        throw new Error(apiErrorText(result));
+      }
 
-      if (!data?.duplicate) {
+      if (!result.data.duplicate) {
         trackOrderCreated();
       }
 
       setToast({
         type: "success",
-        text: data?.duplicate
+        text: result.data.duplicate
           ? "✅ Заказ уже был отправлен (повтор не записан)."
           : "✅ Заказ отправлен! Мы свяжемся для подтверждения.",
       });
 
+      rememberContacts(payload.name, payload.phone);
       clearPendingOrderId();
-      setCart({});
-      setQtyDrafts({});
-      setAddress("");
-      setComment("");
-      setCustomerName("");
+      resetCheckoutForm();
       setTab("catalog");
+
+      if (!result.data.duplicate && payload.paymentMethod === "online") {
+        payOrder(result.data.orderId);
+      }
+      if (!result.data.duplicate && payload.paymentMethod === "sbp" && settings.sbpUrl) {
+        openExternalLink(settings.sbpUrl);
+      }
     } catch (e: any) {
       setToast({
         type: "error",
         text: `Не удалось отправить заказ: ${e?.message || "Ошибка"}`,
       });
     } finally {
+      submittingOrderIdRef.current = "";
       setSending(false);
+      refreshOutbox();
     }
   }
 
-  async function loadMyOrders() {
-    const tg = getTgUser();
-    const tgUserId = tg?.id ? String(tg.id) : "";
+  async function refreshOutbox() {
+    setOutbox(await listOutbox());
+  }
+
+  // Повторная отправка сохранённых заказов. force — не ждать расписания
+  // (вернулась сеть или клиент нажал «Отправить сейчас»).
+  async function flushOutbox(force = false) {
+    if (outboxFlushingRef.current) return;
+    outboxFlushingRef.current = true;
+
+    try {
+      let sent = 0;
+
+      for (const entry of await listOutbox()) {
+        if (entry.failed || entry.orderId === submittingOrderIdRef.current) continue;
+        if (!force && entry.nextAttemptAt > Date.now()) continue;
+
+        const result = await submitOrderRequest(entry.payload, getTgInitData());
+
+        if (result.ok) {
+          await removeOutbox(entry.orderId);
+          if (!result.data.duplicate) trackOrderCreated();
+          sent++;
+          continue;
+        }
+
+        if (isRetryableError(result)) {
+          const attempts = entry.attempts + 1;
+          await putOutbox({
+            ...entry,
+            attempts,
+            nextAttemptAt: Date.now() + retryDelayMs(attempts, result.retryAfter),
+            error: apiErrorText(result),
+          });
+          // Сети нет — остальные заказы пробовать нет смысла.
+          if (result.status === 0) break;
+          continue;
+        }
+
+        await putOutbox({ ...entry, failed: true, error: apiErrorText(result) });
+        setToast({
+          type: "error",
+          text: `Сохранённый заказ не принят: ${apiErrorText(result)}`,
+        });
+      }
+
+      if (sent) {
+        setToast({
+          type: "success",
+          text:
+            sent > 1
+              ? "✅ Сохранённые заказы отправлены."
+              : "✅ Сохранённый заказ отправлен! Мы свяжемся для подтверждения.",
+        });
+        loadMyOrders();
+      }
+    } finally {
+      outboxFlushingRef.current = false;
+      await refreshOutbox();
+    }
+  }
+
+  async function discardOutboxEntry(orderId: string) {
+    await removeOutbox(orderId);
+    await refreshOutbox();
+  }
+
+  // Профиль из облака Telegram или с сервера может оказаться свежее
+  // локального — берём самый новый и раскладываем его по всем хранилищам.
+  async function syncProfile() {
+    const initData = getTgInitData();
+    const [cloud, server] = await Promise.all([
+      loadCloudProfile(),
+      initData ? fetchProfile(initData) : Promise.resolve(null),
+    ]);
+    const remote = server?.ok ? server.data : null;
+    const local = loadLocalProfile();
+    const newest = newestProfile(local, cloud, remote);
+    if (!newest) return;
+
+    if (newest !== local) {
+      setProfile(newest);
+      saveProfileLocally(newest);
+      setCustomerName((prev) => prev || newest.name);
+      setPhone((prev) => (prev.trim() ? prev : newest.phone));
+    }
+
+    if (initData && server?.ok && newest.updatedAt > (remote?.updatedAt || 0)) {
+      saveProfileRequest(newest, initData);
+    }
+  }
+
+  function storeProfile(next: CustomerProfile) {
+    const stamped = { ...next, updatedAt: Date.now() };
+    setProfile(stamped);
+    saveProfileLocally(stamped);
+
+    const initData = getTgInitData();
+    return initData ? saveProfileRequest(stamped, initData) : Promise.resolve(null);
+  }
+
+  async function saveProfile(next: CustomerProfile) {
+    setProfileSaving(true);
+    const result = await storeProfile(next);
+    setProfileSaving(false);
+
+    if (result && !result.ok) {
+      setToast({
+        type: "info",
+        text: `Профиль сохранён на устройстве, но не на сервере: ${apiErrorText(result)}`,
+      });
+      return;
+    }
+    setToast({ type: "success", text: "Профиль сохранён." });
+  }
+
+  // После первого заказа имя и телефон попадают в профиль сами.
+  function rememberContacts(name: string, phoneValue: string) {
+    if (profile.name && profile.phone) return;
+    storeProfile({
+      ...profile,
+      name: profile.name || name.trim(),
+      phone: profile.phone || phoneValue.trim(),
+    });
+  }
+
+  function applySavedAddress(saved: SavedAddress) {
+    setAddress(saved.address);
+    if (saved.zoneId && settings.zones.some((z) => z.id === saved.zoneId)) {
+      setZoneId(saved.zoneId);
+    }
+    if (saved.comment && !comment.trim()) setComment(saved.comment);
+  }
+
+  function saveCurrentAddress() {
+    const count = profile.addresses.length;
+    storeProfile({
+      ...profile,
+      addresses: [
+        ...profile.addresses,
+        newAddress({
+          label: count ? `Адрес ${count + 1}` : "Дом",
+          address: address.trim(),
+          zoneId,
+        }),
+      ],
+    });
+    setToast({
+      type: "success",
+      text: "Адрес сохранён. Название можно поменять в профиле.",
+    });
+  }
+
+  function resetPhoneSession() {
+    savePhoneSession(null);
+    setPhoneSession(null);
+    setOtpChallenge("");
+    setOtpCode("");
+    setOrders([]);
+  }
+
+  async function requestOtp() {
     const phoneDigits = normalizePhone(phone);
+    if (phoneDigits.length < 10) {
+      setToast({ type: "error", text: "Укажи телефон полностью, например +7 900 000-00-00." });
+      return;
+    }
+
+    try {
+      setOtpSending(true);
+      const result = await requestPhoneCode(phoneDigits);
+      if (!result.ok) throw new Error(apiErrorText(result));
+
+      setOtpChallenge(result.data.challenge);
+      setOtpCode("");
+      setToast({ type: "info", text: "Код отправлен." });
+    } catch (e: any) {
+      setToast({ type: "error", text: e?.message || "Не удалось отправить код" });
+    } finally {
+      setOtpSending(false);
+    }
+  }
+
+  async function confirmOtp() {
+    if (!otpChallenge) return;
+
+    try {
+      setOtpSending(true);
+      const result = await verifyPhoneCode(otpChallenge, otpCode);
+      if (!result.ok) throw new Error(apiErrorText(result));
+
+      savePhoneSession(result.data);
+      setPhoneSession(result.data);
+      setOtpChallenge("");
+      setOtpCode("");
+      loadMyOrders(result.data);
+    } catch (e: any) {
+      setToast({ type: "error", text: e?.message || "Не удалось подтвердить код" });
+    } finally {
+      setOtpSending(false);
+    }
+  }
+
+  async function payOrder(orderId: string, fromOrders = false) {
+    try {
+      setPayingOrderId(orderId);
+
+      const result = await createInvoice({
+        orderId,
+        initData: getTgInitData(),
+        session: phoneSession?.token || "",
+      });
+      if (!result.ok) throw new Error(apiErrorText(result));
+
+      const status = await openInvoice(result.data.invoiceUrl);
+
+      if (status === "paid") {
+        setToast({ type: "success", text: "✅ Оплата прошла. Спасибо!" });
+      } else if (status === "failed") {
+        setToast({
+          type: "error",
+          text: "Оплата не прошла. Попробуйте ещё раз из «Моих заказов».",
+        });
+      } else if (status === "pending") {
+        setToast({
+          type: "info",
+          text: "Оплата открыта в новой вкладке. После оплаты обновите «Мои заказы».",
+        });
+      } else {
+        setToast({
+          type: "info",
+          text: "Оплатить заказ можно позже в «Моих заказах» или при получении.",
+        });
+      }
 
-    if (phoneDigits.length < 6 && !tgUserId) {
+      if (fromOrders) loadMyOrders();
+    } catch (e: any) {
+      setToast({
+        type: "error",
+        text: `Не удалось открыть оплату: ${e?.message || "Ошибка"}`,
+      });
+    } finally {
+      setPayingOrderId("");
+    }
+  }
+
+  async function loadMyOrders(session = phoneSession) {
+    const initData = getTgInitData();
+
+    if (!initData && !session) {
       setOrders([]);
-      setOrdersError("Укажи телефон, чтобы показать твои заказы.");
+      setOrdersError("");
       return;
     }
 
@@ -925,23 +1607,23 @@ export default function App() {
       setOrdersLoading(true);
       setOrdersError("");
 
-      const url =
-        `${API_ORDERS_URL}` +
-        `?tgUserId=${encodeURIComponent(tgUserId)}` +
-        `&phone=${encodeURIComponent(phoneDigits)}` +
-        `&limit=30`;
-
-      const res = await fetchWithTimeout(url, {
-        method: "GET",
-        timeoutMs: 35000,
+      const result = await fetchOrders({
+        initData,
+        session: session?.token || "",
+        limit: 30,
       });
-      const data = await res.json().catch(() => ({}));
 
-      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-      if (data?.error) throw new Error(data.error);
+      if (
+        !result.ok &&
+        (result.code === SESSION_INVALID_CODE ||
+          result.code === PHONE_AUTH_REQUIRED_CODE)
+      ) {
+        resetPhoneSession();
+      }
+
+      if (!result.ok) throw new Error(apiErrorText(result));
 
-      const list: Order[] = Array.isArray(data.orders) ? data.orders : [];
-      setOrders(list);
+      setOrders(result.data);
     } catch (e: any) {
       setOrdersError(e?.message || "Не удалось загрузить заказы");
     } finally {
@@ -959,25 +1641,17 @@ export default function App() {
       return;
     }
 
-    const tg = getTgUser();
-    const tgUserId = tg?.id ? String(tg.id) : "";
-    const phoneDigits = normalizePhone(phone);
+    const initData = getTgInitData();
 
     try {
-      const res = await fetch(API_CANCEL_URL, {
-        method: "POST",
-        headers: { "Content-Type": "text/plain;charset=utf-8" },
-        body: JSON.stringify({
-          orderId,
-          reason: r,
-          tgUserId,
-          phone: phoneDigits,
-        }),
+      const result = await cancelOrder({
+        orderId,
+        reason: r,
+        initData,
+        session: phoneSession?.token || "",
       });
 
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-      if (data?.error) throw new Error(data.error);
+      if (!result.ok) throw new Error(apiErrorText(result));
 
       setToast({ type: "success", text: "Заказ отменён." });
       setCancelOrderId(null);
@@ -996,6 +1670,46 @@ export default function App() {
     loadMyOrders();
   }, [tab]);
 
+  useEffect(() => {
+    flushOutbox();
+    syncProfile();
+  }, []);
+
+  // Пустой адрес при оформлении заполняется первым адресом из профиля.
+  useEffect(() => {
+    if (tab !== "checkout" || editingOrder || address.trim()) return;
+    if (profile.addresses[0]) applySavedAddress(profile.addresses[0]);
+  }, [tab]);
+
+  // Состав заказа на время правки не сохраняем, чтобы не подменить им
+  // отложенную корзину покупателя (cartBeforeEditRef).
+  useEffect(() => {
+    if (!cartRestoredRef.current || editingOrder) return;
+
+    const timer = window.setTimeout(() => saveCart(toSavedCart(cart)), 500);
+    return () => window.clearTimeout(timer);
+  }, [cart, editingOrder]);
+
+  // Следующая попытка — по расписанию ближайшего заказа или сразу,
+  // как только браузер сообщит, что сеть вернулась.
+  useEffect(() => {
+    const waiting = outbox.filter((entry) => !entry.failed);
+    if (!waiting.length) return;
+
+    const onOnline = () => flushOutbox(true);
+    const nextAt = Math.min(...waiting.map((entry) => entry.nextAttemptAt));
+    const timer = window.setTimeout(
+      () => flushOutbox(),
+      Math.max(nextAt - Date.now(), 1000)
+    );
+
+    window.addEventListener("online", onOnline);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("online", onOnline);
+    };
+  }, [outbox, phoneSession]);
+
   function getSelectedProduct(group: Product[]) {
     const fallback = group[0];
     const groupKey = getGroupKey(fallback);
@@ -1010,7 +1724,11 @@ export default function App() {
       }, new Map<string, Product[]>())
     );
 
-    const fallbackVariantKey = variantEntries[0]?.[0] || getVariantKey(fallback);
+    // Пока покупатель ничего не выбрал, показываем вариант, который есть в наличии.
+    const fallbackVariantKey =
+      variantEntries.find(([, items]) => items.some(isAvailable))?.[0] ||
+      variantEntries[0]?.[0] ||
+      getVariantKey(fallback);
     const selectedVariantKey = selectedVariantByGroup[groupKey] || fallbackVariantKey;
     const variantItems =
       variantEntries.find(([key]) => key === selectedVariantKey)?.[1] ||
@@ -1022,7 +1740,8 @@ export default function App() {
     if (flavoredItems.length) {
       const flavorStateKey = `${groupKey}__${selectedVariantKey}`;
       const selectedFlavor =
-        selectedFlavorByGroupVariant[flavorStateKey] || getFlavorKey(flavoredItems[0]);
+        selectedFlavorByGroupVariant[flavorStateKey] ||
+        getFlavorKey(flavoredItems.find(isAvailable) || flavoredItems[0]);
       return (
         flavoredItems.find((item) => getFlavorKey(item) === selectedFlavor) ||
         flavoredItems[0]
@@ -1045,7 +1764,9 @@ export default function App() {
       const flavorStateKey = `${groupKey}__${variantKey}`;
       setSelectedFlavorByGroupVariant((prev) => ({
         ...prev,
-        [flavorStateKey]: prev[flavorStateKey] || getFlavorKey(flavoredItems[0]),
+        [flavorStateKey]:
+          prev[flavorStateKey] ||
+          getFlavorKey(flavoredItems.find(isAvailable) || flavoredItems[0]),
       }));
     }
   }
@@ -1064,6 +1785,14 @@ export default function App() {
     const draftValue = qtyDrafts[product.id];
     const displayValue = draftValue !== undefined ? draftValue : String(q);
 
+    if (q === 0 && !isAvailable(product)) {
+      return (
+        <button style={{ ...styles.buyBtn, ...styles.primaryBtnDisabled }} disabled>
+          Нет в наличии
+        </button>
+      );
+    }
+
     if (q === 0) {
       return (
         <button style={styles.buyBtn} onClick={() => addToCart(product)}>
@@ -1081,30 +1810,183 @@ export default function App() {
             −{mode === "weight" ? `${getStepQty(product)} г` : "1"}
           </button>
 
-          <input
-            style={styles.qtyInput}
-            value={displayValue}
-            onChange={(e) => handleDraftChange(product.id, e.target.value)}
-            onBlur={() => commitDraft(product)}
-            inputMode="numeric"
-          />
+          <input
+            style={styles.qtyInput}
+            value={displayValue}
+            onChange={(e) => handleDraftChange(product.id, e.target.value)}
+            onBlur={() => commitDraft(product)}
+            inputMode="numeric"
+          />
+
+          <button
+            style={{
+              ...styles.qtyBtnWide,
+              ...(q >= getMaxQty(product) ? styles.primaryBtnDisabled : {}),
+            }}
+            onClick={() => increaseQty(product)}
+            disabled={q >= getMaxQty(product)}
+          >
+            +{mode === "weight" ? `${getStepQty(product)} г` : "1"}
+          </button>
+        </div>
+
+        <div style={styles.qtyHint}>
+          {mode === "weight"
+            ? `Мин. ${getQtyLabel(product, getMinQty(product))}, шаг ${getStepQty(product)} г`
+            : `Мин. ${getMinQty(product)} шт, шаг ${getStepQty(product)} шт`}
+          {Number.isFinite(getMaxQty(product))
+            ? `, в наличии ${getQtyLabel(product, getMaxQty(product))}`
+            : ""}
+        </div>
+
+        <button
+          style={styles.removeBtnText}
+          onClick={() => removeFromCart(product.id)}
+        >
+          Удалить
+        </button>
+      </div>
+    );
+  }
+
+  function renderPromoField() {
+    if (appliedPromo) {
+      return (
+        <div style={styles.infoMuted}>
+          Промокод <b>{appliedPromo.code}</b>: {describePromo(appliedPromo)}.{" "}
+          <button style={styles.linkBtn} onClick={removePromo}>
+            Убрать
+          </button>
+          {total < appliedPromo.minSum && (
+            <div>
+              Скидка начнёт действовать от {money(appliedPromo.minSum)} ₽ в корзине.
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div style={styles.promoRow}>
+        <input
+          style={styles.input}
+          value={promoInput}
+          onChange={(e) => setPromoInput(e.target.value)}
+          placeholder="Промокод"
+          autoCapitalize="characters"
+        />
+        <button
+          style={{
+            ...styles.secondaryBtn,
+            ...styles.promoBtn,
+            ...(promoChecking || !promoInput.trim() ? styles.primaryBtnDisabled : {}),
+          }}
+          onClick={() => applyPromoCode()}
+          disabled={promoChecking || !promoInput.trim()}
+        >
+          {promoChecking ? "Проверяем..." : "Применить"}
+        </button>
+      </div>
+    );
+  }
+
+  function renderPaymentMethod() {
+    return (
+      <>
+        <label style={styles.label}>
+          Способ оплаты <span style={{ color: "#c62828" }}>*</span>
+        </label>
+        <div style={styles.chipsRow}>
+          {paymentMethods.map((method) => (
+            <button
+              key={method}
+              style={{
+                ...styles.chip,
+                ...(paymentMethod === method ? styles.chipActive : {}),
+              }}
+              onClick={() => setPaymentMethod(method)}
+            >
+              {PAYMENT_METHOD_LABELS[method]}
+            </button>
+          ))}
+        </div>
+
+        {paymentMethod === "cash" && (
+          <>
+            <label style={styles.label}>Сдача с</label>
+            <input
+              style={styles.input}
+              value={changeFrom}
+              onChange={(e) => setChangeFrom(e.target.value)}
+              placeholder="Без сдачи"
+              inputMode="numeric"
+            />
+          </>
+        )}
+        {paymentMethod === "card" && (
+          <div style={styles.mutedTag}>Курьер привезёт терминал.</div>
+        )}
+        {paymentMethod === "sbp" && (
+          <div style={styles.mutedTag}>
+            После оформления откроется ссылка для перевода по СБП — её можно
+            найти и в «Моих заказах».
+          </div>
+        )}
+        {paymentMethod === "online" && (
+          <div style={styles.mutedTag}>
+            После оформления откроется оплата картой прямо в Telegram.
+          </div>
+        )}
+      </>
+    );
+  }
+
+  function renderDiscountRow() {
+    if (!appliedPromo || discount <= 0) return null;
 
-          <button style={styles.qtyBtnWide} onClick={() => increaseQty(product)}>
-            +{mode === "weight" ? `${getStepQty(product)} г` : "1"}
-          </button>
-        </div>
+    return (
+      <div style={styles.totalRow}>
+        <div>Скидка по промокоду {appliedPromo.code}</div>
+        <div style={{ fontWeight: 700, color: "#2e7d32" }}>−{money(discount)} ₽</div>
+      </div>
+    );
+  }
 
-        <div style={styles.qtyHint}>
-          {mode === "weight"
-            ? `Мин. ${getQtyLabel(product, getMinQty(product))}, шаг ${getStepQty(product)} г`
-            : `Мин. ${getMinQty(product)} шт, шаг ${getStepQty(product)} шт`}
-        </div>
+  function renderOrderChanges(
+    title: string,
+    changes: OrderChange[],
+    onAcknowledge?: () => void
+  ) {
+    if (changes.length === 0) return null;
 
-        <button
-          style={styles.removeBtnText}
-          onClick={() => removeFromCart(product.id)}
-        >
-          Удалить
+    return (
+      <div style={styles.changesBlock}>
+        <div style={{ fontWeight: 800 }}>{title}</div>
+        {changes.map((change, idx) => (
+          <div key={`${change.id}_${change.kind}_${idx}`} style={styles.orderItem}>
+            • {describeOrderChange(change, cart[change.id]?.product)}
+          </div>
+        ))}
+        {onAcknowledge && (
+          <>
+            <div>Подтвердите, чтобы перейти к оформлению.</div>
+            <button style={styles.secondaryBtn} onClick={() => onAcknowledge()}>
+              Понятно
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  function renderEditingBanner() {
+    if (!editingOrder) return null;
+
+    return (
+      <div style={styles.infoMuted}>
+        Изменение заказа #{editingOrder.orderId}.{" "}
+        <button style={styles.linkBtn} onClick={stopEditOrder}>
+          Отменить изменение
         </button>
       </div>
     );
@@ -1252,12 +2134,30 @@ export default function App() {
             >
               📦 Мои заказы
             </button>
+
+            <button
+              style={{
+                ...styles.navBtn,
+                ...(tab === "profile" ? styles.navBtnActive : {}),
+              }}
+              onClick={() => setTab("profile")}
+            >
+              👤 Профиль
+            </button>
           </div>
         </div>
 
+        {!isOnline && (
+          <div style={styles.offlineBanner}>
+            Нет подключения к интернету — показан сохранённый каталог.
+            Оформить заказ можно будет, когда связь восстановится.
+          </div>
+        )}
+
         {!getTelegramWebApp() && (
           <div style={styles.infoMuted}>
-            Обычная веб-версия сайта. История заказов работает по номеру телефона.
+            Обычная веб-версия сайта. История заказов работает по номеру телефона
+            после подтверждения кодом.
           </div>
         )}
 
@@ -1273,6 +2173,26 @@ export default function App() {
           <>
             {tab === "catalog" && (
               <>
+                <div style={styles.searchRow}>
+                  <input
+                    style={styles.input}
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Поиск: моцарелла, сардельки из индейки…"
+                    type="search"
+                    enterKeyHint="search"
+                  />
+                  {searchQuery && (
+                    <button
+                      style={styles.searchClearBtn}
+                      onClick={() => setSearchQuery("")}
+                      aria-label="Очистить поиск"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+
                 <div style={styles.chipsRow}>
                   {categories.map((c) => (
                     <button
@@ -1280,19 +2200,29 @@ export default function App() {
                       style={{
                         ...styles.chip,
                         ...(c === "Акции" ? styles.chipPromo : {}),
-                        ...(activeCategory === c
+                        ...(activeCategory === c && !searchGroupScores
                           ? c === "Акции"
                             ? styles.chipPromoActive
                             : styles.chipActive
                           : {}),
                       }}
-                      onClick={() => setActiveCategory(c)}
+                      onClick={() => {
+                        setActiveCategory(c);
+                        setSearchQuery("");
+                      }}
                     >
                       {c === "Акции" ? "🔥 Акции" : c}
                     </button>
                   ))}
                 </div>
 
+                {searchGroupScores && groupedProducts.length === 0 && (
+                  <div style={styles.info}>
+                    По запросу «{searchQuery.trim()}» ничего не нашлось. Попробуйте
+                    написать иначе или выберите категорию.
+                  </div>
+                )}
+
                 <div style={styles.list}>
                   {groupedProducts.map(({ groupKey, items }) => {
                     const selected = getSelectedProduct(items);
@@ -1324,9 +2254,13 @@ export default function App() {
                     const hasFlavors = flavorItems.length > 0;
                     const selectedVariantName = String(selected.variantName || "").trim();
                     const selectedFlavor = getFlavorLabel(selected);
+                    const soldOut = !items.some(isAvailable);
 
                     return (
-                      <div key={groupKey} style={styles.card}>
+                      <div
+                        key={groupKey}
+                        style={{ ...styles.card, ...(soldOut ? styles.cardSoldOut : {}) }}
+                      >
                         {imageSrc ? (
                           <img
                             src={imageSrc}
@@ -1350,7 +2284,9 @@ export default function App() {
                               {groupTitle || selected.name}
                             </div>
 
-                            {badgeText ? (
+                            {soldOut ? (
+                              <span style={styles.soldOutBadge}>Нет в наличии</span>
+                            ) : badgeText ? (
                               <span style={styles.sellingBadge}>{badgeText}</span>
                             ) : null}
                           </div>
@@ -1384,13 +2320,16 @@ export default function App() {
                                 {variantEntries.map(([variantKey, variantItems]) => {
                                   const representative = variantItems[0];
                                   const isActive = variantKey === selectedVariantKey;
+                                  const variantAvailable = variantItems.some(isAvailable);
                                   return (
                                     <button
                                       key={variantKey}
                                       style={{
                                         ...styles.variantChip,
                                         ...(isActive ? styles.variantChipActive : {}),
+                                        ...(!variantAvailable ? styles.variantChipDisabled : {}),
                                       }}
+                                      disabled={!variantAvailable}
                                       onClick={() => selectVariant(groupKey, variantKey, items)}
                                     >
                                       {getVariantLabel(representative)}
@@ -1409,13 +2348,16 @@ export default function App() {
                                 {flavorItems.map((item) => {
                                   const flavorKey = getFlavorKey(item);
                                   const isActive = item.id === selected.id;
+                                  const flavorAvailable = isAvailable(item);
                                   return (
                                     <button
                                       key={item.id}
                                       style={{
                                         ...styles.variantChip,
                                         ...(isActive ? styles.variantChipActive : {}),
+                                        ...(!flavorAvailable ? styles.variantChipDisabled : {}),
                                       }}
+                                      disabled={!flavorAvailable}
                                       onClick={() => selectFlavor(groupKey, selectedVariantKey, flavorKey)}
                                     >
                                       {getFlavorLabel(item)}
@@ -1471,6 +2413,11 @@ export default function App() {
 
             {tab === "cart" && (
               <div style={styles.panel}>
+                {renderEditingBanner()}
+                {renderOrderChanges("В каталоге изменились товары из корзины", cartChanges, () =>
+                  setCartChanges([])
+                )}
+
                 {cartItems.length === 0 ? (
                   <div style={styles.info}>Корзина пустая</div>
                 ) : (
@@ -1554,6 +2501,8 @@ export default function App() {
                       );
                     })}
 
+                    {renderPromoField()}
+
                     <div style={styles.totalBlock}>
                       <div style={styles.totalRow}>
                         <div>Товары</div>
@@ -1563,17 +2512,21 @@ export default function App() {
                       <div style={styles.totalRow}>
                         <div>
                           Доставка{" "}
-                          {delivery === 0 ? (
+                          {zoneRequired && !selectedZone ? (
+                            <span style={styles.mutedTag}>зависит от зоны</span>
+                          ) : delivery === 0 ? (
                             <span style={styles.freeTag}>бесплатно</span>
                           ) : (
                             <span style={styles.mutedTag}>
-                              до {money(FREE_DELIVERY_FROM)} ₽
+                              до {money(deliveryTerms.freeDeliveryFrom)} ₽
                             </span>
                           )}
                         </div>
                         <div style={{ fontWeight: 700 }}>{money(delivery)} ₽</div>
                       </div>
 
+                      {renderDiscountRow()}
+
                       <div style={styles.totalRowBig}>
                         <div>Итого</div>
                         <div style={{ fontWeight: 800 }}>
@@ -1582,11 +2535,26 @@ export default function App() {
                       </div>
                     </div>
 
+                    {belowMinOrder && (
+                      <div style={styles.changesBlock}>
+                        Минимальная сумма заказа
+                        {selectedZone ? ` в зону «${selectedZone.name}»` : ""} —{" "}
+                        {money(deliveryTerms.minOrderSum)} ₽. Добавьте товаров ещё на{" "}
+                        {money(deliveryTerms.minOrderSum - total)} ₽.
+                      </div>
+                    )}
+
                     <button
-                      style={styles.primaryBtn}
+                      style={{
+                        ...styles.primaryBtn,
+                        ...(belowMinOrder || !isOnline || cartChanges.length
+                          ? styles.primaryBtnDisabled
+                          : {}),
+                      }}
                       onClick={() => setTab("checkout")}
+                      disabled={belowMinOrder || !isOnline || cartChanges.length > 0}
                     >
-                      Оформить
+                      {isOnline ? "Оформить" : "Нет связи"}
                     </button>
                   </>
                 )}
@@ -1597,6 +2565,8 @@ export default function App() {
               <div style={styles.panel}>
                 <div style={styles.h2}>Оформление</div>
 
+                {renderEditingBanner()}
+
                 <label style={styles.label}>
                   Имя <span style={{ color: "#c62828" }}>*</span>
                 </label>
@@ -1620,6 +2590,120 @@ export default function App() {
                   inputMode="tel"
                 />
 
+                {profile.addresses.length > 0 && (
+                  <>
+                    <label style={styles.label}>Мои адреса</label>
+                    <div style={styles.chipsRow}>
+                      {profile.addresses.map((saved) => (
+                        <button
+                          key={saved.id}
+                          style={{
+                            ...styles.chip,
+                            ...(address.trim() === saved.address ? styles.chipActive : {}),
+                          }}
+                          onClick={() => applySavedAddress(saved)}
+                        >
+                          {saved.label}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {zoneRequired && (
+                  <>
+                    <label style={styles.label}>
+                      Зона доставки <span style={{ color: "#c62828" }}>*</span>
+                    </label>
+                    <select
+                      style={styles.input}
+                      value={zoneId}
+                      onChange={(e) => setZoneId(e.target.value)}
+                    >
+                      <option value="">Выберите район или посёлок</option>
+                      {settings.zones.map((z) => (
+                        <option key={z.id} value={z.id}>
+                          {z.name} — {money(z.deliveryFee)} ₽, бесплатно от{" "}
+                          {money(z.freeDeliveryFrom)} ₽
+                        </option>
+                      ))}
+                    </select>
+                    {selectedZone && selectedZone.minOrderSum > 0 && (
+                      <div style={styles.mutedTag}>
+                        Минимальная сумма заказа: {money(selectedZone.minOrderSum)} ₽
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {slotsEnabled && (
+                  <>
+                    <label style={styles.label}>
+                      Когда привезти <span style={{ color: "#c62828" }}>*</span>
+                    </label>
+                    {slotDays.length === 0 ? (
+                      <div style={styles.infoMuted}>
+                        Свободных окон доставки пока нет. Оформите заказ позже
+                        или напишите нам.
+                      </div>
+                    ) : (
+                      <>
+                        <div style={styles.chipsRow}>
+                          {slotDays.map((day) => (
+                            <button
+                              key={day.date}
+                              style={{
+                                ...styles.chip,
+                                ...(deliveryDate === day.date ? styles.chipActive : {}),
+                              }}
+                              onClick={() => {
+                                setDeliveryDate(day.date);
+                                setDeliverySlot("");
+                              }}
+                            >
+                              {formatSlotDate(day.date)}
+                            </button>
+                          ))}
+                        </div>
+
+                        {selectedSlotDay && (
+                          <div style={styles.chipsRow}>
+                            {selectedSlotDay.slots.map((slot) => (
+                              <button
+                                key={slot.id}
+                                style={{
+                                  ...styles.chip,
+                                  ...(deliverySlot === slot.id ? styles.chipActive : {}),
+                                  ...(!slot.available ? styles.primaryBtnDisabled : {}),
+                                }}
+                                disabled={!slot.available}
+                                onClick={() => setDeliverySlot(slot.id)}
+                              >
+                                {slot.from}–{slot.to}
+                                {!slot.available
+                                  ? " · мест нет"
+                                  : slot.left !== null && slot.left <= 3
+                                    ? ` · осталось ${slot.left}`
+                                    : ""}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </>
+                )}
+
+                {slotsLoading && <div style={styles.infoMuted}>Загружаем время доставки…</div>}
+                {slotsError && (
+                  <div style={styles.infoMuted}>
+                    {slotsError}{" "}
+                    <button style={styles.linkBtn} onClick={loadSlots}>
+                      Повторить
+                    </button>
+                  </div>
+                )}
+
                 <label style={styles.label}>
                   Адрес <span style={{ color: "#c62828" }}>*</span>
                 </label>
@@ -1629,6 +2713,13 @@ export default function App() {
                   onChange={(e) => setAddress(e.target.value)}
                   placeholder="Улица, дом, квартира / подъезд / код домофона"
                 />
+                {address.trim().length >= 5 &&
+                  canAddAddress(profile) &&
+                  !profile.addresses.some((a) => a.address === address.trim()) && (
+                    <button style={styles.linkBtn} onClick={() => saveCurrentAddress()}>
+                      Сохранить адрес в профиль
+                    </button>
+                  )}
 
                 <label style={styles.label}>Комментарий к заказу</label>
                 <textarea
@@ -1638,6 +2729,12 @@ export default function App() {
                   placeholder="Например: позвонить за 10 минут"
                 />
 
+                {renderPaymentMethod()}
+
+                {renderOrderChanges("Заказ пересчитан по актуальным ценам", orderChanges)}
+
+                {renderPromoField()}
+
                 <div style={styles.totalBlock}>
                   <div style={styles.totalRow}>
                     <div>Товары</div>
@@ -1647,6 +2744,7 @@ export default function App() {
                     <div>Доставка</div>
                     <div style={{ fontWeight: 700 }}>{money(delivery)} ₽</div>
                   </div>
+                  {renderDiscountRow()}
                   <div style={styles.totalRowBig}>
                     <div>Итого</div>
                     <div style={{ fontWeight: 800 }}>{money(grandTotal)} ₽</div>
@@ -1656,12 +2754,18 @@ export default function App() {
                 <button
                   style={{
                     ...styles.primaryBtn,
-                    ...(sending ? styles.primaryBtnDisabled : {}),
+                    ...(sending || !isOnline ? styles.primaryBtnDisabled : {}),
                   }}
                   onClick={submitOrder}
-                  disabled={sending}
+                  disabled={sending || !isOnline}
                 >
-                  {sending ? "Отправляем..." : "Подтвердить заказ"}
+                  {sending
+                    ? "Отправляем..."
+                    : !isOnline
+                      ? "Нет связи"
+                      : editingOrder
+                      ? "Сохранить изменения"
+                      : "Подтвердить заказ"}
                 </button>
 
                 <button
@@ -1673,27 +2777,108 @@ export default function App() {
               </div>
             )}
 
+            {tab === "profile" && (
+              <div style={styles.panel}>
+                <div style={styles.h2}>Профиль</div>
+                <div style={styles.infoMuted}>
+                  {getTgInitData()
+                    ? "Профиль привязан к вашему Telegram и доступен на всех устройствах."
+                    : "Профиль хранится в этом браузере."}
+                </div>
+
+                <ProfileForm
+                  profile={profile}
+                  zones={settings.zones}
+                  saving={profileSaving}
+                  onSave={(next) => saveProfile(next)}
+                />
+              </div>
+            )}
+
             {tab === "orders" && (
               <div style={styles.panel}>
                 <div style={styles.h2}>Мои заказы</div>
 
-                <label style={styles.label}>Телефон</label>
-                <input
-                  style={styles.input}
-                  value={phone}
-                  onChange={(e) => setPhone(e.target.value)}
-                  placeholder="+7..."
-                  autoComplete="tel"
-                  inputMode="tel"
-                />
+                {!getTgInitData() && !phoneSession && (
+                  <>
+                    <label style={styles.label}>Телефон</label>
+                    <input
+                      style={styles.input}
+                      value={phone}
+                      onChange={(e) => {
+                        setPhone(e.target.value);
+                        setOtpChallenge("");
+                      }}
+                      placeholder="+7..."
+                      autoComplete="tel"
+                      inputMode="tel"
+                    />
+
+                    {otpChallenge ? (
+                      <>
+                        <label style={styles.label}>Код подтверждения</label>
+                        <input
+                          style={styles.input}
+                          value={otpCode}
+                          onChange={(e) => setOtpCode(e.target.value.replace(/\D+/g, ""))}
+                          placeholder="6 цифр"
+                          autoComplete="one-time-code"
+                          inputMode="numeric"
+                          maxLength={6}
+                        />
+
+                        <button
+                          style={{
+                            ...styles.primaryBtn,
+                            ...(otpSending ? styles.primaryBtnDisabled : {}),
+                          }}
+                          onClick={confirmOtp}
+                          disabled={otpSending || otpCode.length < 6}
+                        >
+                          Подтвердить
+                        </button>
+
+                        <button
+                          style={styles.secondaryBtn}
+                          onClick={requestOtp}
+                          disabled={otpSending}
+                        >
+                          Отправить код ещё раз
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        style={{
+                          ...styles.primaryBtn,
+                          ...(otpSending ? styles.primaryBtnDisabled : {}),
+                        }}
+                        onClick={requestOtp}
+                        disabled={otpSending}
+                      >
+                        {otpSending ? "Отправляем..." : "Получить код"}
+                      </button>
+                    )}
+                  </>
+                )}
 
-                <button
-                  style={styles.primaryBtn}
-                  onClick={loadMyOrders}
-                  disabled={ordersLoading}
-                >
-                  {ordersLoading ? "Загрузка..." : "Обновить"}
-                </button>
+                {phoneSession && (
+                  <div style={styles.infoMuted}>
+                    Номер +{phoneSession.phone} подтверждён.{" "}
+                    <button style={styles.linkBtn} onClick={resetPhoneSession}>
+                      Сменить номер
+                    </button>
+                  </div>
+                )}
+
+                {(getTgInitData() || phoneSession) && (
+                  <button
+                    style={styles.primaryBtn}
+                    onClick={() => loadMyOrders()}
+                    disabled={ordersLoading}
+                  >
+                    {ordersLoading ? "Загрузка..." : "Обновить"}
+                  </button>
+                )}
 
                 {ordersError && (
                   <div style={{ ...styles.info, color: "#c62828" }}>
@@ -1701,14 +2886,88 @@ export default function App() {
                   </div>
                 )}
 
-                {!ordersLoading && !ordersError && orders.length === 0 && (
+                {!ordersLoading &&
+                  !ordersError &&
+                  orders.length === 0 &&
+                  pendingOrders.length === 0 &&
+                  (getTgInitData() || phoneSession) && (
                   <div style={styles.info}>Заказы не найдены</div>
                 )}
 
                 <div style={styles.ordersList}>
+                  {pendingOrders.map(({ orderId, payload, createdAt, error, failed }) => (
+                    <div key={orderId} style={styles.orderCard}>
+                      <div style={styles.orderTop}>
+                        <div style={styles.orderMain}>
+                          <div style={styles.orderId}>Заказ #{orderId}</div>
+                          <div style={styles.orderDate}>
+                            {formatDate(new Date(createdAt).toISOString())}
+                          </div>
+                        </div>
+
+                        <div
+                          style={{
+                            ...styles.orderStatus,
+                            ...(failed ? styles.orderStatusFailed : {}),
+                          }}
+                        >
+                          {failed ? "Не принят" : "Отправляется"}
+                        </div>
+                      </div>
+
+                      <div style={styles.orderPrices}>
+                        <div style={{ fontWeight: 800 }}>
+                          Итого: {money(payload.grandTotal)} ₽
+                        </div>
+                      </div>
+
+                      <div style={styles.orderItems}>
+                        {payload.items.map((it, idx) => (
+                          <div key={`${orderId}_${idx}`} style={styles.orderItem}>
+                            • {it.name} — {it.qty} {it.unit || ""} ={" "}
+                            {money(it.sum)} ₽
+                          </div>
+                        ))}
+                      </div>
+
+                      <div style={styles.infoMuted}>
+                        {failed
+                          ? `Сервер не принял заказ: ${error}`
+                          : `Заказ сохранён на устройстве и уйдёт, как только появится связь.${
+                              error ? ` Последняя попытка: ${error}` : ""
+                            }`}
+                      </div>
+
+                      {failed ? (
+                        <button
+                          style={styles.secondaryBtn}
+                          onClick={() => discardOutboxEntry(orderId)}
+                        >
+                          Удалить
+                        </button>
+                      ) : (
+                        <button
+                          style={styles.secondaryBtn}
+                          onClick={() => flushOutbox(true)}
+                        >
+                          Отправить сейчас
+                        </button>
+                      )}
+                    </div>
+                  ))}
+
                   {orders.map((o) => {
                     const canCancel =
-                      String(o.status || "").toLowerCase() === "new";
+                      String(o.status || "").toLowerCase() === "new" &&
+                      o.paymentStatus !== "paid";
+                    // Заказы без способа оплаты оформлены до выбора способа —
+                    // для них онлайн-оплата остаётся доступной.
+                    const canPay =
+                      settings.onlinePayment &&
+                      isOrderPayable(o) &&
+                      (!o.paymentMethod || o.paymentMethod === "online");
+                    const canPaySbp =
+                      !!settings.sbpUrl && o.paymentMethod === "sbp" && isOrderPayable(o);
 
                     return (
                       <div key={o.orderId} style={styles.orderCard}>
@@ -1717,6 +2976,7 @@ export default function App() {
                             <div style={styles.orderId}>Заказ #{o.orderId}</div>
                             <div style={styles.orderDate}>
                               {formatDate(o.createdAt)}
+                              {(o.revision || 1) > 1 ? ` · изменён (ред. ${o.revision})` : ""}
                             </div>
                           </div>
 
@@ -1727,7 +2987,16 @@ export default function App() {
 
                         <div style={styles.orderPrices}>
                           <div>Товары: {money(o.total)} ₽</div>
-                          <div>Доставка: {money(o.delivery)} ₽</div>
+                          <div>
+                            Доставка{o.zoneName ? ` (${o.zoneName})` : ""}:{" "}
+                            {money(o.delivery)} ₽
+                          </div>
+                          {o.discount ? (
+                            <div>
+                              Скидка{o.promoCode ? ` (${o.promoCode})` : ""}: −
+                              {money(o.discount)} ₽
+                            </div>
+                          ) : null}
                           <div style={{ fontWeight: 800 }}>
                             Итого: {money(o.grandTotal)} ₽
                           </div>
@@ -1742,20 +3011,68 @@ export default function App() {
                           ))}
                         </div>
 
+                        {o.deliveryDate ? (
+                          <div style={styles.orderItem}>
+                            Доставка: {formatSlotDate(o.deliveryDate)}
+                            {o.deliveryWindow ? `, ${o.deliveryWindow}` : ""}
+                          </div>
+                        ) : null}
+
+                        <div style={styles.orderItem}>Оплата: {humanPaymentStatus(o)}</div>
+
                         {o.cancelReason ? (
                           <div style={styles.cancelReason}>
                             Причина отмены: {o.cancelReason}
                           </div>
                         ) : null}
 
-                        {canCancel && (
+                        {canPay && (
+                          <button
+                            style={{
+                              ...styles.primaryBtn,
+                              ...(payingOrderId ? styles.primaryBtnDisabled : {}),
+                            }}
+                            onClick={() => payOrder(o.orderId, true)}
+                            disabled={!!payingOrderId}
+                          >
+                            {payingOrderId === o.orderId
+                              ? "Открываем оплату..."
+                              : `Оплатить онлайн ${money(o.grandTotal)} ₽`}
+                          </button>
+                        )}
+
+                        {canPaySbp && (
                           <button
-                            style={styles.dangerBtn}
-                            onClick={() => setCancelOrderId(o.orderId)}
+                            style={styles.primaryBtn}
+                            onClick={() => openExternalLink(settings.sbpUrl)}
                           >
-                            Отменить заказ
+                            Перевести {money(o.grandTotal)} ₽ по СБП
                           </button>
                         )}
+
+                        <div style={styles.orderActions}>
+                          <button style={styles.editBtn} onClick={() => repeatOrder(o)}>
+                            Повторить заказ
+                          </button>
+
+                          {canCancel && (
+                            <>
+                              <button
+                                style={styles.editBtn}
+                                onClick={() => startEditOrder(o)}
+                              >
+                                Изменить заказ
+                              </button>
+
+                              <button
+                                style={styles.dangerBtn}
+                                onClick={() => setCancelOrderId(o.orderId)}
+                              >
+                                Отменить заказ
+                              </button>
+                            </>
+                          )}
+                        </div>
                       </div>
                     );
                   })}
@@ -1846,6 +3163,24 @@ const styles: Record<string, React.CSSProperties> = {
     color: "#6f665d",
   },
 
+  searchRow: {
+    display: "grid",
+    gridTemplateColumns: "1fr auto",
+    gap: 8,
+    alignItems: "center",
+    marginBottom: 10,
+  },
+
+  searchClearBtn: {
+    border: "1px solid #e7ddd2",
+    background: "#fff",
+    color: "#2d251d",
+    borderRadius: 12,
+    padding: "10px 14px",
+    cursor: "pointer",
+    fontWeight: 800,
+  },
+
   chipsRow: {
     display: "flex",
     gap: 8,
@@ -1897,6 +3232,11 @@ const styles: Record<string, React.CSSProperties> = {
     flexDirection: "column",
   },
 
+  cardSoldOut: {
+    opacity: 0.55,
+    filter: "grayscale(0.6)",
+  },
+
   cardImg: {
     width: "100%",
     aspectRatio: "1 / 0.9",
@@ -1999,6 +3339,20 @@ const styles: Record<string, React.CSSProperties> = {
     maxWidth: "52%",
   },
 
+  soldOutBadge: {
+    display: "inline-flex",
+    alignItems: "center",
+    flexShrink: 0,
+    whiteSpace: "nowrap",
+    background: "#eee",
+    color: "#6b6259",
+    border: "1px solid #ddd",
+    padding: "6px 10px",
+    borderRadius: 999,
+    fontSize: 12,
+    fontWeight: 800,
+  },
+
   variantBlock: {
     display: "grid",
     gap: 8,
@@ -2033,6 +3387,12 @@ const styles: Record<string, React.CSSProperties> = {
     borderColor: "#8a5a36",
   },
 
+  variantChipDisabled: {
+    opacity: 0.45,
+    textDecoration: "line-through",
+    cursor: "not-allowed",
+  },
+
   metaLine: {
     fontSize: 14,
     lineHeight: 1.45,
@@ -2193,6 +3553,36 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 16,
   },
 
+  promoRow: {
+    display: "flex",
+    gap: 8,
+    alignItems: "center",
+    marginTop: 12,
+  },
+
+  promoBtn: {
+    width: "auto",
+    marginTop: 0,
+    whiteSpace: "nowrap",
+  },
+
+  orderActions: {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+
+  editBtn: {
+    marginTop: 12,
+    border: "1px solid #8a5a36",
+    background: "#fff",
+    color: "#8a5a36",
+    borderRadius: 12,
+    padding: "12px 14px",
+    cursor: "pointer",
+    fontWeight: 800,
+  },
+
   dangerBtn: {
     marginTop: 12,
     border: "none",
@@ -2231,6 +3621,17 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 18,
   },
 
+  changesBlock: {
+    marginTop: 14,
+    display: "grid",
+    gap: 4,
+    background: "#fff8e6",
+    border: "1px solid #f0dca8",
+    color: "#6b4e12",
+    borderRadius: 14,
+    padding: 14,
+  },
+
   freeTag: {
     display: "inline-block",
     marginLeft: 6,
@@ -2300,6 +3701,17 @@ const styles: Record<string, React.CSSProperties> = {
     alignItems: "center",
   },
 
+  linkBtn: {
+    border: "none",
+    background: "transparent",
+    color: "#8a5a36",
+    padding: 0,
+    cursor: "pointer",
+    fontWeight: 800,
+    fontSize: "inherit",
+    textDecoration: "underline",
+  },
+
   removeBtnText: {
     border: "1px solid #f3cdcd",
     background: "#fff5f5",
@@ -2373,6 +3785,21 @@ const styles: Record<string, React.CSSProperties> = {
     lineHeight: 1.4,
   },
 
+  offlineBanner: {
+    marginTop: 12,
+    background: "#fff5f5",
+    color: "#8b1f1f",
+    border: "1px solid #f3cdcd",
+    borderRadius: 12,
+    padding: "10px 12px",
+    fontWeight: 700,
+  },
+
+  orderStatusFailed: {
+    background: "#fff5f5",
+    color: "#8b1f1f",
+  },
+
   cancelReason: {
     marginTop: 10,
     background: "#fff5f5",
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from "react";
+import { canAddAddress, newAddress } from "./profile";
+import type { CustomerProfile, DeliveryZone, SavedAddress } from "./types";
+
+type Props = {
+  profile: CustomerProfile;
+  zones: DeliveryZone[];
+  saving: boolean;
+  onSave: (profile: CustomerProfile) => void;
+};
+
+// Пустое название адреса заменяется на «Адрес N», чтобы в оформлении
+// было что показать на кнопке.
+function withLabels(addresses: SavedAddress[]) {
+  return addresses
+    .filter((a) => a.address.trim())
+    .map((a, idx) => ({ ...a, label: a.label.trim() || `Адрес ${idx + 1}` }));
+}
+
+export default function ProfileForm({ profile, zones, saving, onSave }: Props) {
+  const [draft, setDraft] = useState(profile);
+
+  // Профиль мог подтянуться из облака или с сервера уже после открытия формы.
+  useEffect(() => {
+    setDraft(profile);
+  }, [profile.updatedAt]);
+
+  function updateAddress(id: string, patch: Partial<SavedAddress>) {
+    setDraft((prev) => ({
+      ...prev,
+      addresses: prev.addresses.map((a) => (a.id === id ? { ...a, ...patch } : a)),
+    }));
+  }
+
+  function removeAddress(id: string) {
+    setDraft((prev) => ({
+      ...prev,
+      addresses: prev.addresses.filter((a) => a.id !== id),
+    }));
+  }
+
+  function addAddress() {
+    setDraft((prev) => ({
+      ...prev,
+      addresses: [
+        ...prev.addresses,
+        newAddress({ label: prev.addresses.length ? "" : "Дом" }),
+      ],
+    }));
+  }
+
+  return (
+    <div>
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>Имя</span>
+        <input
+          style={styles.input}
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Как к вам обращаться?"
+          autoComplete="name"
+        />
+      </label>
+
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>Телефон</span>
+        <input
+          style={styles.input}
+          value={draft.phone}
+          onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+          placeholder="+7..."
+          autoComplete="tel"
+          inputMode="tel"
+        />
+      </label>
+
+      <div style={styles.sectionTitle}>Адреса доставки</div>
+      {draft.addresses.length === 0 && (
+        <div style={styles.muted}>
+          Сохраните адреса («Дом», «Дача») — при оформлении их можно будет выбрать
+          одним нажатием.
+        </div>
+      )}
+
+      <div style={styles.list}>
+        {draft.addresses.map((a) => (
+          <div key={a.id} style={styles.card}>
+            <div style={styles.cardHeader}>
+              <input
+                style={{ ...styles.input, fontWeight: 800 }}
+                value={a.label}
+                onChange={(e) => updateAddress(a.id, { label: e.target.value })}
+                placeholder="Название, например «Дача»"
+              />
+              <button style={styles.smallBtn} onClick={() => removeAddress(a.id)}>
+                Удалить
+              </button>
+            </div>
+
+            <textarea
+              style={styles.textarea}
+              value={a.address}
+              onChange={(e) => updateAddress(a.id, { address: e.target.value })}
+              placeholder="Улица, дом, квартира / подъезд / код домофона"
+            />
+
+            {zones.length > 0 && (
+              <select
+                style={styles.input}
+                value={a.zoneId}
+                onChange={(e) => updateAddress(a.id, { zoneId: e.target.value })}
+              >
+                <option value="">Зона доставки — выбрать при оформлении</option>
+                {zones.map((z) => (
+                  <option key={z.id} value={z.id}>
+                    {z.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <input
+              style={{ ...styles.input, marginTop: 8 }}
+              value={a.comment}
+              onChange={(e) => updateAddress(a.id, { comment: e.target.value })}
+              placeholder="Комментарий курьеру"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div style={styles.actions}>
+        {canAddAddress(draft) && (
+          <button style={styles.secondaryBtn} onClick={() => addAddress()}>
+            + Адрес
+          </button>
+        )}
+        <button
+          style={{ ...styles.primaryBtn, ...(saving ? styles.disabled : {}) }}
+          disabled={saving}
+          onClick={() => onSave({ ...draft, addresses: withLabels(draft.addresses) })}
+        >
+          {saving ? "Сохраняем..." : "Сохранить профиль"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  sectionTitle: {
+    fontWeight: 900,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+
+  field: {
+    display: "grid",
+    gap: 4,
+    marginBottom: 10,
+  },
+
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: 700,
+    color: "#6f665d",
+  },
+
+  input: {
+    width: "100%",
+    boxSizing: "border-box",
+    border: "1px solid #e7ddd2",
+    borderRadius: 12,
+    padding: "10px 12px",
+    fontSize: 16,
+    background: "#fff",
+  },
+
+  textarea: {
+    width: "100%",
+    boxSizing: "border-box",
+    border: "1px solid #e7ddd2",
+    borderRadius: 12,
+    padding: "10px 12px",
+    fontSize: 16,
+    minHeight: 70,
+    resize: "vertical",
+    margin: "8px 0",
+    fontFamily: "inherit",
+  },
+
+  muted: {
+    color: "#6f665d",
+    fontSize: 14,
+    marginTop: 4,
+  },
+
+  list: {
+    display: "grid",
+    gap: 10,
+    marginTop: 8,
+  },
+
+  card: {
+    background: "#fffdfb",
+    border: "1px solid #e7ddd2",
+    borderRadius: 16,
+    padding: 12,
+  },
+
+  cardHeader: {
+    display: "grid",
+    gridTemplateColumns: "1fr auto",
+    gap: 8,
+    alignItems: "center",
+  },
+
+  actions: {
+    display: "flex",
+    gap: 8,
+    flexWrap: "wrap",
+    marginTop: 12,
+  },
+
+  primaryBtn: {
+    border: "none",
+    background: "#8a5a36",
+    color: "#fff",
+    borderRadius: 12,
+    padding: "12px 16px",
+    cursor: "pointer",
+    fontWeight: 800,
+    fontSize: 15,
+  },
+
+  secondaryBtn: {
+    border: "1px solid #e7ddd2",
+    background: "#fff",
+    color: "#2d251d",
+    borderRadius: 12,
+    padding: "12px 16px",
+    cursor: "pointer",
+    fontWeight: 800,
+  },
+
+  smallBtn: {
+    border: "1px solid #8a5a36",
+    background: "#fff",
+    color: "#8a5a36",
+    borderRadius: 10,
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontWeight: 700,
+    whiteSpace: "nowrap",
+  },
+
+  disabled: {
+    opacity: 0.65,
+    cursor: "not-allowed",
+  },
+};
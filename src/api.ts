@@ -0,0 +1,616 @@
+import {
+  API_ADMIN_URL,
+  API_PRODUCTS_URL,
+  API_PROFILE_URL,
+  API_PROMO_URL,
+  API_ORDER_URL,
+  API_ORDERS_URL,
+  API_CANCEL_URL,
+  API_CREATE_INVOICE_URL,
+  API_UPDATE_ORDER_URL,
+  API_REQUEST_CODE_URL,
+  API_SETTINGS_URL,
+  API_SLOTS_URL,
+  API_VERIFY_CODE_URL,
+  IMAGES_INDEX_URL,
+} from "./config";
+import type {
+  AdminAuth,
+  AdminOrdersFilter,
+  ApiError,
+  ApiResult,
+  CustomerProfile,
+  Order,
+  OrderChange,
+  OrderEdit,
+  OrderItem,
+  OrderPayload,
+  OrderResult,
+  OrderUpdatePayload,
+  PhoneCodeChallenge,
+  PhoneSession,
+  Product,
+  ProductErrors,
+  ProductsResponse,
+  PromoCheck,
+  PromoInfo,
+  DeliveryDay,
+  DeliverySlot,
+  DeliveryZone,
+  ShopSettings,
+  SlotsResponse,
+} from "./types";
+import {
+  asRecord,
+  isRecord,
+  toNumber,
+  toNumberOr,
+  toOptionalNumber,
+  toOptionalStr,
+  toStr,
+} from "./guards";
+import { normalizeProfile } from "./profile";
+
+export const TIMEOUT_CODE = "timeout";
+export const NETWORK_CODE = "network";
+export const RATE_LIMITED_CODE = "rate_limited";
+export const PHONE_AUTH_REQUIRED_CODE = "phone_auth_required";
+export const SESSION_INVALID_CODE = "session_invalid";
+export const OTP_WRONG_CODE = "otp_wrong_code";
+export const OTP_CHANNEL_UNAVAILABLE_CODE = "otp_channel_unavailable";
+export const REVISION_CONFLICT_CODE = "revision_conflict";
+export const BELOW_MIN_ORDER_CODE = "below_min_order";
+export const UNKNOWN_ZONE_CODE = "unknown_zone";
+export const SLOT_REQUIRED_CODE = "slot_required";
+export const SLOT_UNAVAILABLE_CODE = "slot_unavailable";
+export const SLOT_FULL_CODE = "slot_full";
+export const PROMO_MIN_SUM_CODE = "promo_min_sum";
+export const ALREADY_PAID_CODE = "already_paid";
+export const BAD_PAYMENT_METHOD_CODE = "bad_payment_method";
+export const CHANGE_TOO_SMALL_CODE = "change_too_small";
+export const ADMIN_AUTH_REQUIRED_CODE = "admin_auth_required";
+export const ADMIN_FORBIDDEN_CODE = "admin_forbidden";
+export const STATUS_CONFLICT_CODE = "status_conflict";
+export const INVALID_PRODUCT_CODE = "invalid_product";
+export const MALFORMED_RESPONSE_CODE = "malformed_response";
+export const GS_ACTION_UNSUPPORTED_CODE = "gs_action_unsupported";
+
+export async function fetchWithTimeout(
+  input: RequestInfo,
+  init: RequestInit & { timeoutMs?: number } = {}
+) {
+  const { timeoutMs = 35000, ...rest } = init;
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await fetch(input, { ...rest, signal: controller.signal });
+    return res;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export function parseProduct(raw: unknown): Product | null {
+  if (!isRecord(raw)) return null;
+
+  const id = toStr(raw.id);
+  const name = toStr(raw.name);
+  const price = toNumber(raw.price);
+
+  if (!id || !name || !Number.isFinite(price) || price < 0) return null;
+
+  const storageDays =
+    typeof raw.storageDays === "number" ? raw.storageDays : toOptionalStr(raw.storageDays);
+
+  return {
+    id,
+    category: toStr(raw.category),
+    name,
+    unit: toStr(raw.unit),
+    price,
+    sort: toNumberOr(raw.sort, 0),
+    description: toOptionalStr(raw.description),
+    image: toOptionalStr(raw.image),
+    sellMode: toOptionalStr(raw.sellMode),
+    minQty: toOptionalNumber(raw.minQty),
+    stepQty: toOptionalNumber(raw.stepQty),
+    groupId: toOptionalStr(raw.groupId),
+    variantName: toOptionalStr(raw.variantName),
+    shortName: toOptionalStr(raw.shortName),
+    badge: toOptionalStr(raw.badge),
+    storageType: toOptionalStr(raw.storageType),
+    storageDays,
+    composition: toOptionalStr(raw.composition),
+    subtitle: toOptionalStr(raw.subtitle),
+    flavor: toOptionalStr(raw.flavor),
+    inStock: raw.inStock !== false,
+    stockQty: toOptionalNumber(raw.stockQty),
+  };
+}
+
+function parseOrderItem(raw: unknown): OrderItem | null {
+  if (!isRecord(raw)) return null;
+
+  const name = toStr(raw.name);
+  if (!name) return null;
+
+  return {
+    id: toOptionalStr(raw.id),
+    name,
+    unit: toOptionalStr(raw.unit),
+    price: toNumberOr(raw.price, 0),
+    qty: toNumberOr(raw.qty, 0),
+    sum: toNumberOr(raw.sum, 0),
+  };
+}
+
+export function parseOrder(raw: unknown): Order | null {
+  if (!isRecord(raw)) return null;
+
+  const orderId = toStr(raw.orderId);
+  if (!orderId) return null;
+
+  const items = Array.isArray(raw.items) ? raw.items : [];
+
+  return {
+    orderId,
+    createdAt: toStr(raw.createdAt),
+    status: toStr(raw.status),
+    name: toOptionalStr(raw.name),
+    phone: toOptionalStr(raw.phone),
+    total: toNumberOr(raw.total, 0),
+    delivery: toNumberOr(raw.delivery, 0),
+    grandTotal: toNumberOr(raw.grandTotal, 0),
+    items: items.map(parseOrderItem).filter((it): it is OrderItem => !!it),
+    cancelReason: toOptionalStr(raw.cancelReason),
+    address: toOptionalStr(raw.address),
+    comment: toOptionalStr(raw.comment),
+    zoneId: toOptionalStr(raw.zoneId),
+    zoneName: toOptionalStr(raw.zoneName),
+    deliveryDate: toOptionalStr(raw.deliveryDate),
+    deliverySlot: toOptionalStr(raw.deliverySlot),
+    deliveryWindow: toOptionalStr(raw.deliveryWindow),
+    promoCode: toOptionalStr(raw.promoCode),
+    discount: toOptionalNumber(raw.discount),
+    paymentMethod: toOptionalStr(raw.paymentMethod),
+    changeFrom: toOptionalNumber(raw.changeFrom),
+    paymentStatus: toOptionalStr(raw.paymentStatus),
+    paidAt: toOptionalStr(raw.paidAt),
+    revision: toOptionalNumber(raw.revision),
+    tg: isRecord(raw.tg)
+      ? {
+          id: toOptionalNumber(raw.tg.id),
+          username: toOptionalStr(raw.tg.username),
+          first_name: toOptionalStr(raw.tg.first_name),
+          last_name: toOptionalStr(raw.tg.last_name),
+        }
+      : undefined,
+    statusChangedAt: toOptionalStr(raw.statusChangedAt),
+  };
+}
+
+function parseOrderChange(raw: unknown): OrderChange | null {
+  if (!isRecord(raw)) return null;
+
+  const kind = toStr(raw.kind);
+  if (
+    kind !== "price" &&
+    kind !== "qty" &&
+    kind !== "removed" &&
+    kind !== "stock" &&
+    kind !== "out_of_stock"
+  ) {
+    return null;
+  }
+
+  return {
+    id: toStr(raw.id),
+    name: toStr(raw.name),
+    kind,
+    oldPrice: toOptionalNumber(raw.oldPrice),
+    newPrice: toOptionalNumber(raw.newPrice),
+    oldQty: toOptionalNumber(raw.oldQty),
+    newQty: toOptionalNumber(raw.newQty),
+  };
+}
+
+// Ответ, который не удалось разобрать: request превращает его в ApiError
+// с кодом MALFORMED_RESPONSE_CODE.
+class MalformedResponseError extends Error {}
+
+// Отдельные битые строки (например, недозаполненный товар в таблице)
+// пропускаются. Если же не разобралась ни одна, ответ целиком не тот —
+// это ошибка запроса, а не пустой список.
+function parseList<T>(list: unknown, parse: (raw: unknown) => T | null): T[] {
+  if (!Array.isArray(list)) return [];
+
+  const parsed = list.map(parse).filter((item): item is T => item !== null);
+  if (list.length && !parsed.length) {
+    throw new MalformedResponseError(`Malformed response: ${list.length} rows skipped`);
+  }
+  return parsed;
+}
+
+function parseProductErrors(raw: Record<string, unknown>): ProductErrors {
+  return Object.fromEntries(
+    Object.entries(raw)
+      .map(([field, message]) => [field, toStr(message)])
+      .filter(([, message]) => message)
+  );
+}
+
+function toApiError(status: number, data: unknown, res?: Response): ApiError {
+  const src = asRecord(data);
+  const retryAfter = toOptionalNumber(res?.headers.get("Retry-After") ?? src.retryAfter);
+
+  return {
+    ok: false,
+    status,
+    error: toStr(src.error) || `HTTP ${status}`,
+    code: toOptionalStr(src.code),
+    changes: Array.isArray(src.changes)
+      ? parseList(src.changes, parseOrderChange)
+      : undefined,
+    retryAfter,
+    minOrderSum: toOptionalNumber(src.minOrderSum),
+    minSum: toOptionalNumber(src.minSum),
+    errors: isRecord(src.errors) ? parseProductErrors(src.errors) : undefined,
+  };
+}
+
+async function request<T>(
+  input: string,
+  init: RequestInit & { timeoutMs?: number },
+  parse: (data: unknown, res: Response) => T
+): Promise<ApiResult<T>> {
+  let res: Response;
+
+  try {
+    res = await fetchWithTimeout(input, init);
+  } catch (e) {
+    const err = e instanceof Error ? e : null;
+    if (err?.name === "AbortError") {
+      return { ok: false, status: 0, error: "Timeout", code: TIMEOUT_CODE };
+    }
+    return {
+      ok: false,
+      status: 0,
+      error: err?.message || "Network error",
+      code: NETWORK_CODE,
+    };
+  }
+
+  try {
+    if (res.status === 304) return { ok: true, data: parse({}, res) };
+
+    const data: unknown = await res.json().catch(() => ({}));
+
+    if (!res.ok || asRecord(data).error) return toApiError(res.status, data, res);
+
+    return { ok: true, data: parse(data, res) };
+  } catch (e) {
+    if (!(e instanceof MalformedResponseError)) throw e;
+    return { ok: false, status: res.status, error: e.message, code: MALFORMED_RESPONSE_CODE };
+  }
+}
+
+function postJson(body: unknown): RequestInit {
+  return {
+    method: "POST",
+    headers: { "Content-Type": "text/plain;charset=utf-8" },
+    body: JSON.stringify(body),
+  };
+}
+
+// С etag сохранённого ассортимента сервер может ответить 304 —
+// тогда notModified = true и список товаров пустой.
+export function fetchProducts(
+  etag?: string
+): Promise<ApiResult<ProductsResponse>> {
+  return request(
+    API_PRODUCTS_URL,
+    {
+      method: "GET",
+      headers: etag ? { "If-None-Match": etag } : {},
+      timeoutMs: 35000,
+    },
+    (data, res) => ({
+      products: parseList(asRecord(data).products, parseProduct),
+      etag: res.headers.get("ETag") || etag || "",
+      notModified: res.status === 304,
+    })
+  );
+}
+
+function parseZone(raw: unknown): DeliveryZone | null {
+  if (!isRecord(raw)) return null;
+
+  const id = toStr(raw.id);
+  const name = toStr(raw.name);
+  if (!id || !name) return null;
+
+  return {
+    id,
+    name,
+    deliveryFee: toNumberOr(raw.deliveryFee, 0),
+    freeDeliveryFrom: toNumberOr(raw.freeDeliveryFrom, 0),
+    minOrderSum: toNumberOr(raw.minOrderSum, 0),
+  };
+}
+
+export function parseSettings(raw: unknown, fallback: ShopSettings): ShopSettings {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    deliveryFee: toNumberOr(src.deliveryFee, fallback.deliveryFee),
+    freeDeliveryFrom: toNumberOr(src.freeDeliveryFrom, fallback.freeDeliveryFrom),
+    minOrderSum: toNumberOr(src.minOrderSum, fallback.minOrderSum),
+    zones: Array.isArray(src.zones)
+      ? src.zones.map(parseZone).filter((z): z is DeliveryZone => !!z)
+      : fallback.zones,
+    onlinePayment: src.onlinePayment === true,
+    sbpUrl: toStr(src.sbpUrl),
+  };
+}
+
+export function fetchSettings(
+  fallback: ShopSettings
+): Promise<ApiResult<ShopSettings>> {
+  return request(API_SETTINGS_URL, { method: "GET", timeoutMs: 15000 }, (data) =>
+    parseSettings(asRecord(data).settings, fallback)
+  );
+}
+
+function parseSlot(raw: unknown): DeliverySlot | null {
+  if (!isRecord(raw)) return null;
+
+  const id = toStr(raw.id);
+  if (!id) return null;
+
+  return {
+    id,
+    from: toStr(raw.from),
+    to: toStr(raw.to),
+    left: toOptionalNumber(raw.left) ?? null,
+    available: raw.available === true,
+  };
+}
+
+function parseDay(raw: unknown): DeliveryDay | null {
+  if (!isRecord(raw)) return null;
+
+  const date = toStr(raw.date);
+  if (!date) return null;
+
+  return { date, slots: parseList(raw.slots, parseSlot) };
+}
+
+export function fetchSlots(
+  excludeOrderId = ""
+): Promise<ApiResult<SlotsResponse>> {
+  const url = excludeOrderId
+    ? `${API_SLOTS_URL}?excludeOrderId=${encodeURIComponent(excludeOrderId)}`
+    : API_SLOTS_URL;
+
+  return request(url, { method: "GET", timeoutMs: 15000 }, (data) => ({
+    enabled: asRecord(data).enabled !== false,
+    days: parseList(asRecord(data).days, parseDay),
+  }));
+}
+
+function parsePromo(raw: unknown): PromoInfo | null {
+  if (!isRecord(raw)) return null;
+
+  const code = toStr(raw.code);
+  const type = toStr(raw.type);
+  if (!code) return null;
+  if (type !== "percent" && type !== "fixed" && type !== "free_delivery") return null;
+
+  return {
+    code,
+    type,
+    value: toNumberOr(raw.value, 0),
+    minSum: toNumberOr(raw.minSum, 0),
+  };
+}
+
+export async function checkPromoCode(params: {
+  code: string;
+  total: number;
+  delivery: number;
+  phone: string;
+  initData: string;
+  orderId?: string;
+}): Promise<ApiResult<PromoCheck>> {
+  const result = await request(API_PROMO_URL, postJson(params), (data) => ({
+    promo: parsePromo(asRecord(data).promo),
+    discount: toNumberOr(asRecord(data).discount, 0),
+  }));
+
+  if (!result.ok) return result;
+
+  const { promo, discount } = result.data;
+  if (!promo) {
+    return {
+      ok: false,
+      status: 200,
+      error: "Malformed promo response",
+      code: MALFORMED_RESPONSE_CODE,
+    };
+  }
+  return { ok: true, data: { promo, discount } };
+}
+
+export function createInvoice(params: {
+  orderId: string;
+  initData: string;
+  session: string;
+}): Promise<ApiResult<{ invoiceUrl: string }>> {
+  return request(API_CREATE_INVOICE_URL, postJson(params), (data) => ({
+    invoiceUrl: toStr(asRecord(data).invoiceUrl),
+  }));
+}
+
+// initData не хранится в outbox: подпись устаревает, поэтому при каждой
+// отправке берётся текущая.
+export function submitOrderRequest(
+  payload: OrderPayload,
+  initData: string
+): Promise<ApiResult<OrderResult>> {
+  return request(API_ORDER_URL, postJson({ ...payload, initData }), (data) => ({
+    orderId: toStr(asRecord(data).orderId) || payload.orderId,
+    duplicate: !!asRecord(data).duplicate,
+  }));
+}
+
+export function updateOrderRequest(
+  payload: OrderUpdatePayload
+): Promise<ApiResult<OrderEdit>> {
+  return request(API_UPDATE_ORDER_URL, postJson(payload), (data) => ({
+    orderId: toStr(asRecord(data).orderId) || payload.orderId,
+    revision: toNumberOr(asRecord(data).revision, payload.revision + 1),
+  }));
+}
+
+export function fetchOrders(params: {
+  initData: string;
+  session: string;
+  limit?: number;
+}): Promise<ApiResult<Order[]>> {
+  // Учётные данные — заголовками: строка запроса попадает в логи.
+  const url = `${API_ORDERS_URL}?limit=${params.limit || 30}`;
+  const headers = {
+    "X-Telegram-Init-Data": params.initData,
+    "X-Customer-Session": params.session,
+  };
+
+  return request(url, { method: "GET", headers, timeoutMs: 35000 }, (data) =>
+    parseList(asRecord(data).orders, parseOrder)
+  );
+}
+
+// Профиль на сервере — только для входа через Telegram (initData).
+export function fetchProfile(
+  initData: string
+): Promise<ApiResult<CustomerProfile | null>> {
+  const headers = { "X-Telegram-Init-Data": initData };
+
+  return request(API_PROFILE_URL, { method: "GET", headers }, (data) => {
+    const { profile } = asRecord(data);
+    return isRecord(profile) ? normalizeProfile(profile) : null;
+  });
+}
+
+export function saveProfileRequest(
+  profile: CustomerProfile,
+  initData: string
+): Promise<ApiResult<CustomerProfile>> {
+  return request(API_PROFILE_URL, postJson({ profile, initData }), (data) => {
+    const saved = asRecord(data).profile;
+    return normalizeProfile(isRecord(saved) ? saved : profile);
+  });
+}
+
+export function cancelOrder(params: {
+  orderId: string;
+  reason: string;
+  initData: string;
+  session: string;
+}): Promise<ApiResult<{ orderId: string }>> {
+  return request(API_CANCEL_URL, postJson(params), () => ({
+    orderId: params.orderId,
+  }));
+}
+
+function adminHeaders(auth: AdminAuth): Record<string, string> {
+  if (auth.token) return { Authorization: `Bearer ${auth.token}` };
+  return { "X-Telegram-Init-Data": auth.initData || "" };
+}
+
+function adminPost(auth: AdminAuth, body: unknown): RequestInit {
+  const init = postJson(body);
+  return {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), ...adminHeaders(auth) },
+  };
+}
+
+export function fetchAdminOrders(
+  auth: AdminAuth,
+  filter: AdminOrdersFilter
+): Promise<ApiResult<Order[]>> {
+  const url =
+    `${API_ADMIN_URL}?action=orders` +
+    `&status=${encodeURIComponent(filter.status)}` +
+    `&from=${encodeURIComponent(filter.from)}` +
+    `&to=${encodeURIComponent(filter.to)}`;
+
+  return request(
+    url,
+    { method: "GET", headers: adminHeaders(auth), timeoutMs: 35000 },
+    (data) => parseList(asRecord(data).orders, parseOrder)
+  );
+}
+
+// expectedStatus — статус, который видел оператор: если заказ уже
+// поменяли, сервер ответит status_conflict.
+export function setAdminOrderStatus(
+  auth: AdminAuth,
+  params: { orderId: string; status: string; expectedStatus: string; reason?: string }
+): Promise<ApiResult<{ orderId: string; status: string }>> {
+  return request(
+    API_ADMIN_URL,
+    adminPost(auth, { action: "setStatus", ...params }),
+    (data) => ({
+      orderId: toStr(asRecord(data).orderId) || params.orderId,
+      status: toStr(asRecord(data).status) || params.status,
+    })
+  );
+}
+
+// Свежий каталог из таблицы, в обход кэша /api/products.
+export function fetchAdminProducts(auth: AdminAuth): Promise<ApiResult<Product[]>> {
+  return request(
+    `${API_ADMIN_URL}?action=products`,
+    { method: "GET", headers: adminHeaders(auth), timeoutMs: 35000 },
+    (data) => parseList(asRecord(data).products, parseProduct)
+  );
+}
+
+export function saveAdminProduct(
+  auth: AdminAuth,
+  product: Product,
+  isNew: boolean
+): Promise<ApiResult<Product>> {
+  return request(
+    API_ADMIN_URL,
+    adminPost(auth, { action: "saveProduct", product, isNew }),
+    (data) => parseProduct(asRecord(data).product) || product
+  );
+}
+
+export function fetchImageList(): Promise<ApiResult<string[]>> {
+  return request(IMAGES_INDEX_URL, { method: "GET", timeoutMs: 15000 }, (data) =>
+    Array.isArray(data) ? data.map(toStr).filter(Boolean) : []
+  );
+}
+
+export function requestPhoneCode(
+  phone: string
+): Promise<ApiResult<PhoneCodeChallenge>> {
+  return request(API_REQUEST_CODE_URL, postJson({ phone }), (data) => ({
+    challenge: toStr(asRecord(data).challenge),
+    expiresAt: toNumberOr(asRecord(data).expiresAt, 0),
+  }));
+}
+
+export function verifyPhoneCode(
+  challenge: string,
+  code: string
+): Promise<ApiResult<PhoneSession>> {
+  return request(API_VERIFY_CODE_URL, postJson({ challenge, code }), (data) => ({
+    token: toStr(asRecord(data).token),
+    phone: toStr(asRecord(data).phone),
+    expiresAt: toNumberOr(asRecord(data).expiresAt, 0),
+  }));
+}
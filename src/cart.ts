@@ -0,0 +1,181 @@
+import {
+  getMaxQty,
+  getProductDisplayName,
+  isAvailable,
+  normalizeQtyForProduct,
+} from "./catalog";
+import { isRecord, toNumberOr, toStr } from "./guards";
+import {
+  CLOUD_VALUE_MAX,
+  cloudStorageGet,
+  cloudStorageRemove,
+  cloudStorageSet,
+} from "./telegram";
+import type {
+  CartItem,
+  Order,
+  OrderChange,
+  Product,
+  SavedCart,
+  SavedCartLine,
+} from "./types";
+
+// Корзина хранится в localStorage и, внутри Telegram, в CloudStorage —
+// так она переезжает между телефоном и компьютером.
+const CART_KEY = "farm_cart_v1";
+
+export function toCartLines(cart: Record<string, CartItem>): SavedCartLine[] {
+  return Object.values(cart).map(({ product, qty }) => ({
+    id: product.id,
+    name: getProductDisplayName(product),
+    qty,
+    price: product.price,
+  }));
+}
+
+// Строки оформленного заказа для сверки с каталогом (повтор, правка).
+export function orderToCartLines(order: Order): SavedCartLine[] {
+  return order.items.map((item) => ({
+    id: item.id || "",
+    name: item.name,
+    qty: item.qty,
+    price: item.price,
+  }));
+}
+
+export function toSavedCart(cart: Record<string, CartItem>): SavedCart {
+  return { lines: toCartLines(cart), savedAt: Date.now() };
+}
+
+function parseSavedCart(raw: string | null): SavedCart | null {
+  if (!raw) return null;
+
+  try {
+    const data: unknown = JSON.parse(raw);
+    if (!isRecord(data) || !Array.isArray(data.lines)) return null;
+
+    const lines: SavedCartLine[] = data.lines
+      .filter(isRecord)
+      .map((line) => ({
+        id: toStr(line.id),
+        name: toStr(line.name),
+        qty: toNumberOr(line.qty, 0),
+        price: toNumberOr(line.price, 0),
+      }))
+      .filter((line) => line.id && line.qty > 0);
+
+    return { lines, savedAt: toNumberOr(data.savedAt, 0) };
+  } catch {
+    return null;
+  }
+}
+
+// Из двух копий берётся более свежая: корзину могли поменять на другом
+// устройстве, пока это было закрыто.
+export async function loadSavedCart(): Promise<SavedCart | null> {
+  let local: SavedCart | null = null;
+  try {
+    local = parseSavedCart(localStorage.getItem(CART_KEY));
+  } catch {}
+
+  const cloud = parseSavedCart(await cloudStorageGet(CART_KEY));
+
+  if (!local || !cloud) return local || cloud;
+  return cloud.savedAt > local.savedAt ? cloud : local;
+}
+
+// В CloudStorage значение не длиннее CLOUD_VALUE_MAX символов. Большой
+// корзине сначала не хватает места на названия — они нужны, только чтобы
+// назвать пропавший из каталога товар. Если не влезает и без них, облачная
+// копия удаляется: иначе другое устройство восстановило бы устаревшую.
+function toCloudValue(saved: SavedCart) {
+  const full = JSON.stringify(saved);
+  if (full.length <= CLOUD_VALUE_MAX) return full;
+
+  const compact = JSON.stringify({
+    ...saved,
+    lines: saved.lines.map(({ id, qty, price }) => ({ id, qty, price })),
+  });
+  return compact.length <= CLOUD_VALUE_MAX ? compact : null;
+}
+
+export function saveCart(saved: SavedCart) {
+  try {
+    localStorage.setItem(CART_KEY, JSON.stringify(saved));
+  } catch {}
+
+  const cloud = toCloudValue(saved);
+  if (cloud) {
+    cloudStorageSet(CART_KEY, cloud);
+  } else {
+    cloudStorageRemove(CART_KEY);
+  }
+}
+
+// Сверяет строки корзины (сохранённой или текущей) с актуальным каталогом: пропавшие и
+// закончившиеся товары убираются, количество заново приводится к шагу
+// и остатку, изменившиеся цены попадают в список изменений.
+export function reconcileCart(lines: SavedCartLine[], products: Product[]) {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const cart: Record<string, CartItem> = {};
+  const changes: OrderChange[] = [];
+
+  lines.forEach((line) => {
+    const product = byId.get(line.id);
+    if (!product) {
+      changes.push({ id: line.id, name: line.name || line.id, kind: "removed" });
+      return;
+    }
+
+    const name = getProductDisplayName(product);
+    if (!isAvailable(product)) {
+      changes.push({ id: line.id, name, kind: "out_of_stock" });
+      return;
+    }
+
+    const normalized = normalizeQtyForProduct(product, line.qty);
+    const qty = Math.min(normalized, getMaxQty(product));
+
+    if (qty !== line.qty) {
+      changes.push({
+        id: line.id,
+        name,
+        kind: qty < normalized ? "stock" : "qty",
+        oldQty: line.qty,
+        newQty: qty,
+      });
+    }
+
+    if (line.price && line.price !== product.price) {
+      changes.push({
+        id: line.id,
+        name,
+        kind: "price",
+        oldPrice: line.price,
+        newPrice: product.price,
+      });
+    }
+
+    cart[product.id] = { product, qty };
+  });
+
+  return { cart, changes };
+}
+
+// Неподтверждённые изменения копятся до «Понятно». Новое изменение того же
+// товара заменяет старое, но у цены остаётся исходное значение — покупатель
+// видит разницу с тем, что клал в корзину.
+export function mergeCartChanges(prev: OrderChange[], next: OrderChange[]) {
+  const sameAs = (a: OrderChange) => (b: OrderChange) => a.id === b.id && a.kind === b.kind;
+
+  const merged = next
+    .map((change) => {
+      const earlier = prev.find(sameAs(change));
+      return earlier && change.kind === "price"
+        ? { ...change, oldPrice: earlier.oldPrice }
+        : change;
+    })
+    .filter((change) => change.kind !== "price" || change.oldPrice !== change.newPrice);
+
+  return [...prev.filter((change) => !next.some(sameAs(change))), ...merged];
+}
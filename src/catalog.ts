@@ -0,0 +1,172 @@
+import {
+  calcDelivery,
+  calcLineSum,
+  getDisplayUnit,
+  getMaxQty,
+  getMinQty,
+  getProductDisplayName,
+  getSellMode,
+  getStepQty,
+  getWeightPriceBase,
+  normalizeQtyForProduct,
+  parseWeightPriceBase,
+} from "../api/_lib/pricing.js";
+import { validateProduct } from "../api/_lib/product-validation.js";
+import type { Product } from "./types";
+
+// Расчёт количества и сумм общий с сервером — см. api/_lib/pricing.js.
+export {
+  calcDelivery,
+  calcLineSum,
+  getDisplayUnit,
+  getMaxQty,
+  getMinQty,
+  getProductDisplayName,
+  getSellMode,
+  getStepQty,
+  getWeightPriceBase,
+  normalizeQtyForProduct,
+  parseWeightPriceBase,
+};
+
+// Проверка товара в админке та же, что на сервере, — api/_lib/product-validation.js.
+export { validateProduct };
+
+export function normalizeImagePath(img?: string): string | undefined {
+  const s = String(img || "").trim();
+  if (!s) return undefined;
+  if (s.startsWith("http://") || s.startsWith("https://")) return s;
+  if (s.startsWith("/")) return s;
+  if (s.startsWith("public/")) return "/" + s.replace(/^public\//, "");
+  return "/" + s;
+}
+
+export function getGroupKey(product: Product) {
+  return String(product.groupId || product.id || "").trim();
+}
+
+function sanitizeGroupTitle(value: string) {
+  return String(value || "")
+    .replace(/[\s,;:/|._-]+$/, "")
+    .replace(/[\s]+$/, "")
+    .trim();
+}
+
+function getSharedPrefix(values: string[]) {
+  if (!values.length) return "";
+  let prefix = values[0] || "";
+
+  for (let i = 1; i < values.length; i += 1) {
+    const current = values[i] || "";
+    let j = 0;
+    const max = Math.min(prefix.length, current.length);
+
+    while (j < max && prefix[j].toLowerCase() === current[j].toLowerCase()) {
+      j += 1;
+    }
+
+    prefix = prefix.slice(0, j);
+    if (!prefix) break;
+  }
+
+  return sanitizeGroupTitle(prefix);
+}
+
+export function getGroupTitle(group: Product[]) {
+  if (!group.length) return "";
+
+  const names = group
+    .map((p) => String(p.name || "").trim())
+    .filter(Boolean);
+
+  if (!names.length) return "";
+
+  const prefix = getSharedPrefix(names);
+  if (prefix.length >= 3) return prefix;
+
+  return names[0];
+}
+
+export function getProductSubtitle(product: Product, fallbackTitle?: string) {
+  const explicit = String(product.subtitle || "").trim();
+  if (explicit) return explicit;
+
+  const raw = String(product.description || "").trim();
+  if (!raw) return "";
+
+  const firstSentence =
+    raw
+      .split(/\n|[.!?]/)
+      .map((s) => s.trim())
+      .find(Boolean) || "";
+
+  if (!firstSentence) return "";
+
+  if (fallbackTitle) {
+    const normalizedTitle = fallbackTitle.toLowerCase();
+    if (firstSentence.toLowerCase() === normalizedTitle) return "";
+  }
+
+  if (/^состав\s*:/i.test(firstSentence)) return "";
+  if (/^срок\s*хранения\s*:/i.test(firstSentence)) return "";
+
+  return firstSentence;
+}
+
+export function getVariantKey(product: Product) {
+  return String(product.variantName || "__default__").trim() || "__default__";
+}
+
+export function getVariantLabel(product: Product) {
+  const variantName = String(product.variantName || "").trim();
+  const shortName = String(product.shortName || "").trim();
+
+  if (variantName && shortName) return `${variantName} · ${shortName}`;
+  if (variantName) return variantName;
+  if (shortName) return shortName;
+
+  return String(product.unit || "").trim() || String(product.name || "").trim();
+}
+
+export function getFlavorKey(product: Product) {
+  return String(product.flavor || "").trim();
+}
+
+export function getFlavorLabel(product: Product) {
+  return String(product.flavor || "").trim();
+}
+
+export function getBadgeText(group: Product[], selected: Product) {
+  const direct = String(selected.badge || "").trim();
+  if (direct) return direct;
+
+  const fromGroup = group
+    .map((p) => String(p.badge || "").trim())
+    .find(Boolean);
+
+  return fromGroup || "";
+}
+
+export function getStorageTypeLabel(product: Product) {
+  return String(product.storageType || "").trim();
+}
+
+function formatKg(kg: number) {
+  return Number.isInteger(kg) ? String(kg) : String(kg).replace(".", ",");
+}
+
+export function getQtyLabel(product: Product, qty: number) {
+  if (getSellMode(product) !== "weight") {
+    return `${qty} шт`;
+  }
+
+  if (qty >= 1000) {
+    return `${formatKg(qty / 1000)} кг`;
+  }
+
+  return `${qty} г`;
+}
+
+export function isAvailable(product: Product) {
+  return getMaxQty(product) > 0;
+}
@@ -1,4 +1,14 @@
 export const API_PRODUCTS_URL = "/api/products";
+export const API_SETTINGS_URL = "/api/settings";
+export const API_SLOTS_URL = "/api/slots";
 export const API_ORDER_URL = "/api/order";
 export const API_ORDERS_URL = "/api/orders";
 export const API_CANCEL_URL = "/api/cancel-order";
+export const API_UPDATE_ORDER_URL = "/api/update-order";
+export const API_REQUEST_CODE_URL = "/api/request-code";
+export const API_VERIFY_CODE_URL = "/api/verify-code";
+export const API_PROMO_URL = "/api/promo";
+export const API_CREATE_INVOICE_URL = "/api/create-invoice";
+export const API_ADMIN_URL = "/api/admin";
+export const API_PROFILE_URL = "/api/profile";
+export const IMAGES_INDEX_URL = "/images/index.json";
@@ -0,0 +1,63 @@
+import type { Order, PaymentMethod } from "./types";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Наличными",
+  card: "Картой курьеру",
+  sbp: "Перевод по СБП",
+  online: "Онлайн в Telegram",
+};
+
+export function money(n: number) {
+  const value = Number(n) || 0;
+  return new Intl.NumberFormat("ru-RU", {
+    minimumFractionDigits: value % 1 === 0 ? 0 : 1,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export function formatDate(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(d);
+}
+
+// Дата слота приходит как YYYY-MM-DD в часовом поясе магазина.
+export function formatSlotDate(date: string) {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(d.getTime())) return date;
+  return new Intl.DateTimeFormat("ru-RU", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  }).format(d);
+}
+
+export function humanStatus(s: string) {
+  const v = String(s || "").toLowerCase();
+  if (v === "new") return "Новый";
+  if (v === "accepted") return "Принят";
+  if (v === "cooking" || v === "in_work") return "В работе";
+  if (v === "delivering") return "Доставляется";
+  if (v === "done" || v === "completed") return "Выполнен";
+  if (v === "canceled" || v === "cancelled") return "Отменён";
+  return s || "—";
+}
+
+export function humanPaymentStatus(order: Order) {
+  if (order.paymentStatus === "paid") return "оплачен онлайн";
+  if (order.paymentStatus === "pending") return "ожидает оплаты";
+
+  const method = order.paymentMethod as PaymentMethod | undefined;
+  if (!method || !PAYMENT_METHOD_LABELS[method]) return "при получении";
+  if (method === "cash" && order.changeFrom) {
+    return `наличными, сдача с ${money(order.changeFrom)} ₽`;
+  }
+  return PAYMENT_METHOD_LABELS[method].toLowerCase();
+}
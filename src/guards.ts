@@ -0,0 +1,37 @@
+// Разбор данных, пришедших извне (ответы API, localStorage, CloudStorage):
+// всё приходит как unknown и приводится к нужному типу здесь.
+
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+export function asRecord(v: unknown): Record<string, unknown> {
+  return isRecord(v) ? v : {};
+}
+
+export function toStr(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  return String(v).trim();
+}
+
+export function toOptionalStr(v: unknown): string | undefined {
+  return toStr(v) || undefined;
+}
+
+// Sheets отдаёт числа то числом, то строкой, иногда с запятой.
+export function toNumber(v: unknown): number {
+  if (typeof v === "number") return v;
+  const n = Number(toStr(v).replace(/\s+/g, "").replace(",", "."));
+  return Number.isFinite(n) ? n : NaN;
+}
+
+export function toOptionalNumber(v: unknown): number | undefined {
+  if (toStr(v) === "") return undefined;
+  const n = toNumber(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function toNumberOr(v: unknown, fallback: number): number {
+  const n = toNumber(v);
+  return Number.isFinite(n) ? n : fallback;
+}
@@ -1,9 +1,21 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
+import Admin from "./Admin";
 import App from "./App";
 
+// /admin — панель операторов в том же бандле (см. rewrites в vercel.json).
+const isAdmin = window.location.pathname.replace(/\/+$/, "") === "/admin";
+
+// sw.js появляется только в сборке (см. serviceWorkerPlugin в vite.config.ts),
+// в dev регистрация просто не удаётся.
+if ("serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(() => {});
+  });
+}
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <App />
+    {isAdmin ? <Admin /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,88 @@
+import type { ApiError, OrderPayload, OutboxEntry } from "./types";
+
+// Неотправленные заказы живут в IndexedDB: переживают закрытие вкладки
+// и перезапуск мини-приложения. Повторная отправка безопасна — сервер
+// узнаёт заказ по orderId и отвечает duplicate.
+const DB_NAME = "farm_outbox";
+const STORE = "orders";
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      try {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(STORE, { keyPath: "orderId" });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    try {
+      const req = action(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = (await run("readonly", (s) => s.getAll())) as OutboxEntry[] | undefined;
+  return (entries || []).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function putOutbox(entry: OutboxEntry) {
+  await run("readwrite", (s) => s.put(entry));
+}
+
+export async function removeOutbox(orderId: string) {
+  await run("readwrite", (s) => s.delete(orderId));
+}
+
+export function newOutboxEntry(payload: OrderPayload): OutboxEntry {
+  return {
+    orderId: payload.orderId,
+    payload,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+}
+
+// 5 с, 10 с, 20 с… но не реже раза в 5 минут; разброс ±20%, чтобы
+// вкладки не стучались одновременно.
+export function retryDelayMs(attempts: number, retryAfterSec?: number) {
+  const exp = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+  const jittered = exp * (0.8 + Math.random() * 0.4);
+  return Math.max(jittered, (retryAfterSec || 0) * 1000);
+}
+
+// Нет связи, таймаут, лимит запросов или сбой сервера — стоит повторить.
+// Остальные ответы окончательные: цены изменились, слот занят, таблица
+// не умеет нужное действие (501) и т.п.
+export function isRetryableError(err: ApiError) {
+  return (
+    err.status === 0 || err.status === 429 || (err.status >= 500 && err.status !== 501)
+  );
+}
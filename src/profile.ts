@@ -0,0 +1,73 @@
+import { MAX_ADDRESSES, normalizeProfile } from "../api/_lib/profile-normalize.js";
+import { isRecord } from "./guards";
+import { cloudStorageGet, cloudStorageSet } from "./telegram";
+import type { CustomerProfile, SavedAddress } from "./types";
+
+// Нормализация профиля общая с сервером — см. api/_lib/profile-normalize.js.
+export { normalizeProfile };
+
+// Профиль хранится так же, как корзина: localStorage и CloudStorage
+// Telegram, а для входа через Telegram — ещё и на сервере (api/profile.js).
+const PROFILE_KEY = "farm_profile_v1";
+
+export function emptyProfile(): CustomerProfile {
+  return { name: "", phone: "", addresses: [], updatedAt: 0 };
+}
+
+function parseProfile(raw: string | null): CustomerProfile | null {
+  if (!raw) return null;
+
+  try {
+    const data: unknown = JSON.parse(raw);
+    return isRecord(data) ? normalizeProfile(data) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Самая свежая из копий — её могли поправить на другом устройстве.
+export function newestProfile(
+  ...profiles: (CustomerProfile | null | undefined)[]
+): CustomerProfile | null {
+  return profiles.reduce<CustomerProfile | null>(
+    (best, p) => (p && (!best || p.updatedAt > best.updatedAt) ? p : best),
+    null
+  );
+}
+
+export function loadLocalProfile(): CustomerProfile | null {
+  try {
+    return parseProfile(localStorage.getItem(PROFILE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+export async function loadCloudProfile(): Promise<CustomerProfile | null> {
+  return parseProfile(await cloudStorageGet(PROFILE_KEY));
+}
+
+export function saveProfileLocally(profile: CustomerProfile) {
+  const raw = JSON.stringify(profile);
+
+  try {
+    localStorage.setItem(PROFILE_KEY, raw);
+  } catch {}
+
+  cloudStorageSet(PROFILE_KEY, raw);
+}
+
+export function canAddAddress(profile: CustomerProfile) {
+  return profile.addresses.length < MAX_ADDRESSES;
+}
+
+export function newAddress(fields: Partial<SavedAddress> = {}): SavedAddress {
+  return {
+    id: `addr_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    label: "",
+    address: "",
+    zoneId: "",
+    comment: "",
+    ...fields,
+  };
+}
@@ -0,0 +1,366 @@
+import type { Product } from "./types";
+
+// Поиск по каталогу целиком на клиенте: товаров десятки, индекс строится
+// заново при каждой загрузке ассортимента.
+//
+// Текст приводится к «скелету»: нижний регистр, ё → е, латиница —
+// транслитом в кириллицу, слова — к основе (стеммер Портера для русского,
+// см. snowballstem.org/algorithms/russian). Запрос дополнительно пробуется
+// в другой раскладке: «cshs» → «сыры».
+
+type IndexedToken = {
+  word: string;
+  stem: string;
+  loose: string;
+  weight: number;
+};
+
+export type SearchIndex = Map<string, IndexedToken[]>;
+
+// Название важнее состава и описания: «сыр» в названии выше, чем
+// «сыр» в составе пиццы.
+const FIELD_WEIGHTS: [keyof Product, number][] = [
+  ["name", 3],
+  ["shortName", 3],
+  ["variantName", 2],
+  ["flavor", 2],
+  ["composition", 1],
+  ["description", 1],
+];
+
+const STOP_WORDS = new Set([
+  "и", "в", "во", "на", "с", "со", "из", "для", "без", "по", "от", "к", "у", "о", "или",
+]);
+
+const SCORE_EXACT = 1;
+const SCORE_LOOSE = 0.9;
+const SCORE_PREFIX = 0.8;
+const SCORE_FUZZY = 0.6;
+
+const LAYOUT_EN = "qwertyuiop[]asdfghjkl;'zxcvbnm,.`";
+const LAYOUT_RU = "йцукенгшщзхъфывапролджэячсмитьбюё";
+
+const LAYOUT_MAP = new Map(
+  Array.from(LAYOUT_EN).map((ch, idx) => [ch, LAYOUT_RU[idx]])
+);
+
+function switchLayout(text: string) {
+  return Array.from(text.toLowerCase())
+    .map((ch) => LAYOUT_MAP.get(ch) ?? ch)
+    .join("");
+}
+
+// Сначала многобуквенные сочетания, потом одиночные буквы.
+const TRANSLIT: [string, string][] = [
+  ["shch", "щ"],
+  ["sch", "щ"],
+  ["zh", "ж"],
+  ["kh", "х"],
+  ["ts", "ц"],
+  ["ch", "ч"],
+  ["sh", "ш"],
+  ["yu", "ю"],
+  ["ya", "я"],
+  ["yo", "е"],
+  ["ye", "е"],
+  ["ju", "ю"],
+  ["ja", "я"],
+  ["a", "а"],
+  ["b", "б"],
+  ["c", "к"],
+  ["d", "д"],
+  ["e", "е"],
+  ["f", "ф"],
+  ["g", "г"],
+  ["h", "х"],
+  ["i", "и"],
+  ["j", "й"],
+  ["k", "к"],
+  ["l", "л"],
+  ["m", "м"],
+  ["n", "н"],
+  ["o", "о"],
+  ["p", "п"],
+  ["q", "к"],
+  ["r", "р"],
+  ["s", "с"],
+  ["t", "т"],
+  ["u", "у"],
+  ["v", "в"],
+  ["w", "в"],
+  ["x", "кс"],
+  ["y", "ы"],
+  ["z", "з"],
+];
+
+function transliterate(word: string) {
+  let out = "";
+  let i = 0;
+
+  while (i < word.length) {
+    const pair = TRANSLIT.find(([lat]) => word.startsWith(lat, i));
+    if (pair) {
+      out += pair[1];
+      i += pair[0].length;
+    } else {
+      out += word[i];
+      i += 1;
+    }
+  }
+  return out;
+}
+
+// Написания, которые путают и в транслите, и вручную: «sir» → «сир»
+// вместо «сыр», «моцарела» вместо «моцарелла».
+function looseKey(word: string) {
+  return word
+    .replace(/[ыйі]/g, "и")
+    .replace(/[ъь]/g, "")
+    .replace(/(.)\1+/g, "$1");
+}
+
+function tokenize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .split(/[^a-z0-9а-я]+/)
+    .filter(Boolean)
+    .map((word) => (/[a-z]/.test(word) ? transliterate(word) : word))
+    .filter((word) => !STOP_WORDS.has(word));
+}
+
+const VOWELS = "аеиоуыэюя";
+
+const PERFECTIVE_GERUND_1 = ["в", "вши", "вшись"];
+const PERFECTIVE_GERUND_2 = ["ив", "ивши", "ившись", "ыв", "ывши", "ывшись"];
+const ADJECTIVE = [
+  "ее", "ие", "ые", "ое", "ими", "ыми", "ей", "ий", "ый", "ой", "ем", "им", "ым",
+  "ом", "его", "ого", "ему", "ому", "их", "ых", "ую", "юю", "ая", "яя", "ою", "ею",
+];
+const PARTICIPLE_1 = ["ем", "нн", "вш", "ющ", "щ"];
+const PARTICIPLE_2 = ["ивш", "ывш", "ующ"];
+const REFLEXIVE = ["ся", "сь"];
+const VERB_1 = [
+  "ла", "на", "ете", "йте", "ли", "й", "л", "ем", "н", "ло", "но", "ет", "ют",
+  "ны", "ть", "ешь", "нно",
+];
+const VERB_2 = [
+  "ила", "ыла", "ена", "ейте", "уйте", "ите", "или", "ыли", "ей", "уй", "ил", "ыл",
+  "им", "ым", "ен", "ило", "ыло", "ено", "ят", "ует", "уют", "ит", "ыт", "ены",
+  "ить", "ыть", "ишь", "ую", "ю",
+];
+const NOUN = [
+  "а", "ев", "ов", "ие", "ье", "е", "иями", "ями", "ами", "еи", "ии", "и", "ией",
+  "ей", "ой", "ий", "й", "иям", "ям", "ием", "ем", "ам", "ом", "о", "у", "ах",
+  "иях", "ях", "ы", "ь", "ию", "ью", "ю", "ия", "ья", "я",
+];
+const SUPERLATIVE = ["ейше", "ейш"];
+const DERIVATIONAL = ["ость", "ост"];
+
+// Самое длинное подходящее окончание. Окончания первой группы снимаются
+// только после «а» или «я» — сама буква остаётся в основе.
+function stripEnding(word: string, group1: string[], group2: string[] = []) {
+  let best = "";
+  let needsAYa = false;
+
+  group1.forEach((ending) => {
+    if (ending.length > best.length && word.endsWith(ending)) {
+      best = ending;
+      needsAYa = true;
+    }
+  });
+  group2.forEach((ending) => {
+    if (ending.length > best.length && word.endsWith(ending)) {
+      best = ending;
+      needsAYa = false;
+    }
+  });
+
+  if (!best) return null;
+
+  const base = word.slice(0, -best.length);
+  if (needsAYa && !/[ая]$/.test(base)) return null;
+  return base;
+}
+
+function stripAdjectival(word: string) {
+  const base = stripEnding(word, [], ADJECTIVE);
+  if (base === null) return null;
+  return stripEnding(base, PARTICIPLE_1, PARTICIPLE_2) ?? base;
+}
+
+// Начало области после первого гласного, за которым идёт согласный.
+function regionAfterVowelConsonant(word: string, from: number) {
+  for (let i = from + 1; i < word.length; i += 1) {
+    if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+export function stemRussian(word: string) {
+  if (word.length < 4 || !/^[а-я]+$/.test(word)) return word;
+
+  const firstVowel = Array.from(word).findIndex((ch) => VOWELS.includes(ch));
+  if (firstVowel < 0) return word;
+
+  const rvStart = firstVowel + 1;
+  const r2Start = regionAfterVowelConsonant(
+    word,
+    regionAfterVowelConsonant(word, 0) - 1
+  );
+
+  const prefix = word.slice(0, rvStart);
+  let rv = word.slice(rvStart);
+
+  const gerund = stripEnding(rv, PERFECTIVE_GERUND_1, PERFECTIVE_GERUND_2);
+  if (gerund !== null) {
+    rv = gerund;
+  } else {
+    rv = stripEnding(rv, [], REFLEXIVE) ?? rv;
+    rv =
+      stripAdjectival(rv) ??
+      stripEnding(rv, VERB_1, VERB_2) ??
+      stripEnding(rv, [], NOUN) ??
+      rv;
+  }
+
+  if (rv.endsWith("и")) rv = rv.slice(0, -1);
+
+  const derivational = stripEnding(rv, [], DERIVATIONAL);
+  if (derivational !== null && rvStart + derivational.length >= r2Start) {
+    rv = derivational;
+  }
+
+  if (rv.endsWith("нн")) {
+    rv = rv.slice(0, -1);
+  } else {
+    const superlative = stripEnding(rv, [], SUPERLATIVE);
+    if (superlative !== null) {
+      rv = superlative.endsWith("нн") ? superlative.slice(0, -1) : superlative;
+    } else if (rv.endsWith("ь")) {
+      rv = rv.slice(0, -1);
+    }
+  }
+
+  return prefix + rv;
+}
+
+// Расстояние Дамерау — Левенштейна с ранним выходом: нужно знать только,
+// укладывается ли слово в max правок.
+function withinDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return false;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i += 1) {
+    rows[i] = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (i > 0 && rowMin > max) return false;
+  }
+
+  return rows[a.length][b.length] <= max;
+}
+
+function typoBudget(length: number) {
+  if (length < 4) return 0;
+  return length >= 7 ? 2 : 1;
+}
+
+export function buildSearchIndex(products: Product[]): SearchIndex {
+  const index: SearchIndex = new Map();
+
+  products.forEach((product) => {
+    const tokens = new Map<string, IndexedToken>();
+
+    FIELD_WEIGHTS.forEach(([field, weight]) => {
+      tokenize(String(product[field] ?? "")).forEach((word) => {
+        const current = tokens.get(word);
+        if (!current || current.weight < weight) {
+          const stem = stemRussian(word);
+          tokens.set(word, { word, stem, loose: looseKey(stem), weight });
+        }
+      });
+    });
+
+    index.set(product.id, Array.from(tokens.values()));
+  });
+
+  return index;
+}
+
+function matchWord(word: string, tokens: IndexedToken[]) {
+  const stem = stemRussian(word);
+  const loose = looseKey(stem);
+  const budget = typoBudget(stem.length);
+  let best = 0;
+
+  tokens.forEach((token) => {
+    let score = 0;
+
+    if (token.stem === stem || token.word === word) {
+      score = SCORE_EXACT;
+    } else if (token.loose === loose) {
+      score = SCORE_LOOSE;
+    } else if (
+      token.word.startsWith(word) ||
+      (stem.length >= 3 && token.word.startsWith(stem))
+    ) {
+      // Последнее слово запроса обычно недописано: «моца» → «моцарелла».
+      score = SCORE_PREFIX;
+    } else if (budget && withinDistance(stem, token.stem, budget)) {
+      score = SCORE_FUZZY;
+    }
+
+    best = Math.max(best, score * token.weight);
+  });
+
+  return best;
+}
+
+function scoreQuery(words: string[], tokens: IndexedToken[]) {
+  let total = 0;
+
+  for (const word of words) {
+    const score = matchWord(word, tokens);
+    if (!score) return 0;
+    total += score;
+  }
+  return total;
+}
+
+// Оценка каждого подходящего товара: в зачёт идут только товары, где
+// нашлось каждое слово запроса. Из вариантов запроса (как набран /
+// в другой раскладке) берётся лучший.
+export function searchProducts(index: SearchIndex, query: string) {
+  const variants = [tokenize(query)];
+  if (/[a-z[\];',.`]/i.test(query)) variants.push(tokenize(switchLayout(query)));
+
+  const scores = new Map<string, number>();
+  const queries = variants.filter((words) => words.length > 0);
+  if (!queries.length) return scores;
+
+  index.forEach((tokens, productId) => {
+    const score = Math.max(...queries.map((words) => scoreQuery(words, tokens)));
+    if (score > 0) scores.set(productId, score);
+  });
+
+  return scores;
+}
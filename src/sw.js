@@ -0,0 +1,114 @@
+// Service worker веб-версии. Файл — шаблон: serviceWorkerPlugin в
+// vite.config.ts подставляет список файлов сборки и версию и кладёт
+// результат в dist/sw.js. В dev файла нет.
+const BUILD_ID = "__BUILD_ID__";
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `farm-shell-${BUILD_ID}`;
+const API_CACHE = "farm-api-v1";
+const IMAGES_CACHE = "farm-images-v1";
+
+// Картинки товаров крупные (до нескольких мегабайт), поэтому кэш ограничен
+// и по числу файлов, и по размеру одного файла.
+const IMAGES_MAX_ENTRIES = 60;
+const IMAGE_MAX_BYTES = 3 * 1024 * 1024;
+
+// Последний известный каталог и настройки — для работы без сети.
+const OFFLINE_API_PATHS = ["/api/products", "/api/settings"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const keep = [SHELL_CACHE, API_CACHE, IMAGES_CACHE];
+
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/index.html"));
+    return;
+  }
+
+  if (OFFLINE_API_PATHS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE));
+    return;
+  }
+
+  if (url.pathname.startsWith("/images/") && url.pathname !== "/images/index.json") {
+    event.respondWith(cacheImage(request));
+    return;
+  }
+
+  if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(url.pathname).then((cached) => cached || fetch(request))
+    );
+  }
+});
+
+// Сеть в приоритете, кэш — когда сети нет. Ответы 304 не кэшируются:
+// в них нет тела, а без сети нужен полный каталог.
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  const key = fallbackUrl || request.url;
+
+  try {
+    const response = await fetch(request);
+    if (response.status === 200) {
+      cache.put(key, response.clone());
+    }
+    return response;
+  } catch (e) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+async function cacheImage(request) {
+  const cache = await caches.open(IMAGES_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.status !== 200) return response;
+
+  const size =
+    Number(response.headers.get("Content-Length")) ||
+    (await response.clone().blob()).size;
+
+  if (size <= IMAGE_MAX_BYTES) {
+    await cache.put(request, response.clone());
+    trimCache(cache, IMAGES_MAX_ENTRIES);
+  }
+  return response;
+}
+
+// keys() отдаёт записи в порядке добавления — удаляем самые старые.
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  await Promise.all(
+    keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key))
+  );
+}
@@ -0,0 +1,116 @@
+import type { TgUser } from "./types";
+
+export function getTelegramWebApp() {
+  try {
+    const tg = window.Telegram?.WebApp;
+    if (!tg) return null;
+    return tg;
+  } catch {
+    return null;
+  }
+}
+
+export function getTgUser(): TgUser | null {
+  try {
+    const tg = getTelegramWebApp();
+    return tg?.initDataUnsafe?.user || null;
+  } catch {
+    return null;
+  }
+}
+
+// Открывает ссылку на оплату. В Telegram результат приходит в колбэк
+// openInvoice: paid / cancelled / failed / pending. Вне Telegram
+// (браузер, dev-режим) ссылка открывается в новой вкладке — статус
+// оплаты станет известен только после обновления заказов.
+export function openInvoice(url: string): Promise<string> {
+  const tg = getTelegramWebApp();
+
+  if (tg?.openInvoice) {
+    return new Promise((resolve) => {
+      try {
+        tg.openInvoice(url, (status: string) => resolve(String(status || "")));
+      } catch {
+        resolve("failed");
+      }
+    });
+  }
+
+  window.open(url, "_blank", "noopener");
+  return Promise.resolve("pending");
+}
+
+// Внешняя ссылка (например, оплата по СБП): в Telegram — через openLink,
+// чтобы не закрывать мини-приложение.
+export function openExternalLink(url: string) {
+  const tg = getTelegramWebApp();
+
+  if (tg?.openLink) {
+    tg.openLink(url);
+    return;
+  }
+
+  window.open(url, "_blank", "noopener");
+}
+
+// Сырая строка initData: сервер проверяет её подпись и берёт из неё id
+// пользователя. Вне Telegram — пустая строка.
+export function getTgInitData(): string {
+  try {
+    const tg = getTelegramWebApp();
+    return String(tg?.initData || "");
+  } catch {
+    return "";
+  }
+}
+
+// CloudStorage привязан к аккаунту Telegram и общий для всех устройств.
+// Появился в Bot API 6.9; в старых клиентах и вне Telegram его нет.
+export const CLOUD_VALUE_MAX = 4096;
+
+function getCloudStorage() {
+  const tg = getTelegramWebApp();
+  if (!tg?.CloudStorage || !tg.isVersionAtLeast?.("6.9")) return null;
+  return tg.CloudStorage;
+}
+
+export function cloudStorageGet(key: string): Promise<string | null> {
+  const storage = getCloudStorage();
+  if (!storage) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    try {
+      storage.getItem(key, (err: unknown, value?: string) =>
+        resolve(err ? null : value || null)
+      );
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+export function cloudStorageRemove(key: string): Promise<boolean> {
+  const storage = getCloudStorage();
+  if (!storage) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    try {
+      storage.removeItem(key, (err: unknown) => resolve(!err));
+    } catch {
+      resolve(false);
+    }
+  });
+}
+
+export function cloudStorageSet(key: string, value: string): Promise<boolean> {
+  const storage = getCloudStorage();
+  if (!storage || value.length > CLOUD_VALUE_MAX) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    try {
+      storage.setItem(key, value, (err: unknown) => resolve(!err));
+    } catch {
+      resolve(false);
+    }
+  });
+}
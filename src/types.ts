@@ -0,0 +1,276 @@
+export type Product = {
+  id: string;
+  category: string;
+  name: string;
+  unit: string;
+  price: number;
+  sort: number;
+  description?: string;
+  image?: string;
+  sellMode?: "weight" | "piece" | string;
+  minQty?: number;
+  stepQty?: number;
+  groupId?: string;
+  variantName?: string;
+  shortName?: string;
+  badge?: string;
+  storageType?: string;
+  storageDays?: number | string;
+  composition?: string;
+  subtitle?: string;
+  flavor?: string;
+  inStock?: boolean;
+  stockQty?: number;
+};
+
+// Ошибки проверки товара по полям; group — конфликт внутри groupId.
+export type ProductErrors = Partial<Record<keyof Product | "group", string>>;
+
+export type ProductsResponse = {
+  products: Product[];
+  etag: string;
+  notModified: boolean;
+};
+
+export type DeliveryTerms = {
+  deliveryFee: number;
+  freeDeliveryFrom: number;
+  minOrderSum: number;
+};
+
+export type DeliveryZone = DeliveryTerms & {
+  id: string;
+  name: string;
+};
+
+export type ShopSettings = DeliveryTerms & {
+  zones: DeliveryZone[];
+  onlinePayment: boolean;
+  sbpUrl: string;
+};
+
+export type PaymentMethod = "cash" | "card" | "sbp" | "online";
+
+export type DeliverySlot = {
+  id: string;
+  from: string;
+  to: string;
+  // null — окно без ограничения по числу заказов.
+  left: number | null;
+  available: boolean;
+};
+
+export type DeliveryDay = {
+  date: string;
+  slots: DeliverySlot[];
+};
+
+export type SlotsResponse = {
+  enabled: boolean;
+  days: DeliveryDay[];
+};
+
+export type PromoType = "percent" | "fixed" | "free_delivery";
+
+export type PromoInfo = {
+  code: string;
+  type: PromoType;
+  value: number;
+  minSum: number;
+};
+
+export type PromoCheck = {
+  promo: PromoInfo;
+  discount: number;
+};
+
+export type CartItem = {
+  product: Product;
+  qty: number;
+};
+
+// Строка сохранённой корзины. Цена и название запоминаются, чтобы при
+// восстановлении показать, что изменилось или пропало из каталога.
+export type SavedCartLine = {
+  id: string;
+  name: string;
+  qty: number;
+  price: number;
+};
+
+export type SavedCart = {
+  lines: SavedCartLine[];
+  savedAt: number;
+};
+
+export type TgUser = {
+  id?: number;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+};
+
+export type OrderItem = {
+  id?: string;
+  name: string;
+  unit?: string;
+  price: number;
+  qty: number;
+  sum: number;
+};
+
+export type Order = {
+  orderId: string;
+  createdAt: string;
+  status: string;
+  name?: string;
+  phone?: string;
+  total: number;
+  delivery: number;
+  grandTotal: number;
+  items: OrderItem[];
+  cancelReason?: string;
+  address?: string;
+  comment?: string;
+  zoneId?: string;
+  zoneName?: string;
+  deliveryDate?: string;
+  deliverySlot?: string;
+  deliveryWindow?: string;
+  promoCode?: string;
+  discount?: number;
+  paymentMethod?: string;
+  changeFrom?: number;
+  paymentStatus?: string;
+  paidAt?: string;
+  revision?: number;
+  tg?: TgUser;
+  statusChangedAt?: string;
+};
+
+export type OrderChange = {
+  id: string;
+  name: string;
+  kind: "price" | "qty" | "removed" | "stock" | "out_of_stock";
+  oldPrice?: number;
+  newPrice?: number;
+  oldQty?: number;
+  newQty?: number;
+};
+
+export type OrderPayload = {
+  name: string;
+  phone: string;
+  address: string;
+  comment: string;
+  zoneId: string;
+  deliveryDate: string;
+  deliverySlot: string;
+  promoCode: string;
+  paymentMethod: PaymentMethod;
+  changeFrom: number;
+  items: OrderItem[];
+  total: number;
+  delivery: number;
+  grandTotal: number;
+  orderId: string;
+  utmSource: string;
+  utmMedium: string;
+  utmCampaign: string;
+};
+
+export type OrderUpdatePayload = {
+  orderId: string;
+  revision: number;
+  address: string;
+  comment: string;
+  zoneId: string;
+  deliveryDate: string;
+  deliverySlot: string;
+  promoCode: string;
+  paymentMethod: PaymentMethod;
+  changeFrom: number;
+  items: OrderItem[];
+  total: number;
+  delivery: number;
+  grandTotal: number;
+  initData: string;
+  session: string;
+};
+
+export type OrderEdit = {
+  orderId: string;
+  revision: number;
+};
+
+export type OrderResult = {
+  orderId: string;
+  duplicate: boolean;
+};
+
+// Заказ, который ещё не подтвердил сервер. failed — сервер ответил
+// отказом, повторять бессмысленно: клиент видит причину и удаляет заказ сам.
+export type OutboxEntry = {
+  orderId: string;
+  payload: OrderPayload;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+  failed?: boolean;
+};
+
+// Адрес из адресной книги профиля («Дом», «Дача»). zoneId подставляется
+// в оформление вместе с адресом.
+export type SavedAddress = {
+  id: string;
+  label: string;
+  address: string;
+  zoneId: string;
+  comment: string;
+};
+
+export type CustomerProfile = {
+  name: string;
+  phone: string;
+  addresses: SavedAddress[];
+  updatedAt: number;
+};
+
+export type PhoneSession = {
+  token: string;
+  phone: string;
+  expiresAt: number;
+};
+
+export type PhoneCodeChallenge = {
+  challenge: string;
+  expiresAt: number;
+};
+
+// Вход в админку: токен ADMIN_TOKEN в браузере или initData администратора
+// внутри Telegram.
+export type AdminAuth = {
+  token?: string;
+  initData?: string;
+};
+
+export type AdminOrdersFilter = {
+  status: string;
+  from: string;
+  to: string;
+};
+
+export type ApiError = {
+  ok: false;
+  status: number;
+  error: string;
+  code?: string;
+  changes?: OrderChange[];
+  retryAfter?: number;
+  minOrderSum?: number;
+  minSum?: number;
+  errors?: ProductErrors;
+};
+
+export type ApiResult<T> = { ok: true; data: T } | ApiError;
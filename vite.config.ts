@@ -1,6 +1,85 @@
-import { defineConfig } from "vite";
-import react from "@vitejs/plugin-react";
-
-export default defineConfig({
-  plugins: [react()],
-});
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import { fileURLToPath } from "node:url";
+import { defineConfig, type Plugin } from "vite";
+import react from "@vitejs/plugin-react";
+import mockApiPlugin from "./mock/vite-api-plugin.js";
+
+const IMAGE_EXT_RE = /\.(png|jpe?g|webp)$/i;
+
+// Список картинок из public/images для выбора в редакторе каталога.
+// Функции Vercel не видят public/, поэтому список собирается при сборке
+// в /images/index.json (в dev отдаётся на лету).
+function imagesManifestPlugin(): Plugin {
+  const dir = fileURLToPath(new URL("./public/images", import.meta.url));
+
+  function listImages() {
+    if (!fs.existsSync(dir)) return "[]";
+    const files = fs
+      .readdirSync(dir)
+      .filter((file) => IMAGE_EXT_RE.test(file))
+      .sort((a, b) => a.localeCompare(b, "ru"));
+    return JSON.stringify(files);
+  }
+
+  return {
+    name: "farm-images-manifest",
+
+    configureServer(server) {
+      server.middlewares.use("/images/index.json", (_req, res) => {
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.end(listImages());
+      });
+    },
+
+    generateBundle() {
+      this.emitFile({
+        type: "asset",
+        fileName: "images/index.json",
+        source: listImages(),
+      });
+    },
+  };
+}
+
+// Service worker собирается из шаблона src/sw.js: в него подставляется
+// список файлов сборки для предзагрузки и версия, по которой меняется
+// кэш оболочки. Картинки товаров сюда не входят — они кэшируются по мере
+// просмотра.
+const SW_STATIC_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+
+function serviceWorkerPlugin(): Plugin {
+  const template = fileURLToPath(new URL("./src/sw.js", import.meta.url));
+
+  return {
+    name: "farm-service-worker",
+    apply: "build",
+    enforce: "post",
+
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((file) => file !== "images/index.json")
+        .map((file) => `/${file}`);
+      const urls = Array.from(new Set([...SW_STATIC_URLS, ...files])).sort();
+      const buildId = createHash("sha1").update(urls.join("\n")).digest("hex").slice(0, 10);
+
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: fs
+          .readFileSync(template, "utf8")
+          .replace("__BUILD_ID__", buildId)
+          .replace("__PRECACHE_URLS__", JSON.stringify(urls)),
+      });
+    },
+  };
+}
+
+export default defineConfig(({ mode }) => ({
+  plugins: [
+    react(),
+    imagesManifestPlugin(),
+    serviceWorkerPlugin(),
+    ...(mode === "mock" ? [mockApiPlugin()] : []),
+  ],
+}));